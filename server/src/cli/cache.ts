@@ -0,0 +1,37 @@
+/**
+ * Cache integrity check from the command line:
+ *
+ *   npm run cache -- verify [--deep] [--repair]
+ *
+ * --deep also compares checksums against each song's manifest.json; --repair
+ * removes damaged and leftover files. Songs that lose stems are not re-queued
+ * from here: prepare them again (or repair through POST /api/cache/verify) once
+ * the server is running. Run --repair while the server is stopped.
+ */
+import { rebuildCatalog } from "../services/catalog.js";
+import { verifyCache } from "../services/cacheIntegrity.js";
+
+const [command, ...flags] = process.argv.slice(2);
+
+if (command === "verify") {
+  const repair = flags.includes("--repair");
+  const reports = await verifyCache({ deep: flags.includes("--deep"), repair });
+
+  for (const report of reports) {
+    for (const issue of report.issues) {
+      const outcome = issue.repaired ? " - removed" : "";
+      console.log(`${report.videoId}  ${issue.kind.padEnd(12)} ${issue.file}  (${issue.detail})${outcome}`);
+    }
+  }
+
+  const damaged = reports.filter((report) => report.issues.length > 0);
+  if (repair && damaged.length > 0) {
+    // The server's catalog isn't loaded here; re-index so it matches what is left.
+    await rebuildCatalog();
+    console.log("Songs that lost stems need preparing again.");
+  }
+  process.exitCode = damaged.length > 0 && !repair ? 1 : 0;
+} else {
+  console.error("Usage: npm run cache -- verify [--deep] [--repair]");
+  process.exitCode = 1;
+}
@@ -0,0 +1,19 @@
+/**
+ * Catalog maintenance from the command line:
+ *
+ *   npm run catalog -- rebuild
+ *
+ * Re-indexes every song in cache/ (e.g. after copying song dirs in by hand).
+ * Run it while the server is stopped: a running server keeps its own copy and
+ * would write it back over the rebuilt one.
+ */
+import { rebuildCatalog } from "../services/catalog.js";
+
+const [command] = process.argv.slice(2);
+
+if (command === "rebuild") {
+  await rebuildCatalog();
+} else {
+  console.error("Usage: npm run catalog -- rebuild");
+  process.exitCode = 1;
+}
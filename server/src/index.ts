@@ -3,12 +3,16 @@ import express from "express";
 import http from "http";
 import cors from "cors";
 import { Server } from "socket.io";
-import * as path from "node:path";
-import * as fs from "node:fs";
 
 import searchRouter from "./routes/search.js";
-import prepareRouter from "./routes/prepare.js";
+import prepareRouter, { jobStatusPayload, resumeInterruptedJobs } from "./routes/prepare.js";
 import lyricsRouter from "./routes/lyrics.js";
+import mediaRouter from "./routes/media.js";
+import cacheRouter from "./routes/cache.js";
+import { getJob } from "./services/jobStore.js";
+import { enforceCacheQuota } from "./services/cacheManager.js";
+import { CATALOG_SORTS, loadCatalog, preparedSongFields, queryCatalog, type CatalogQuery } from "./services/catalog.js";
+import { onJobProgress } from "./services/jobEvents.js";
 
 const PORT = Number(process.env.PORT || 4000);
 const HOST = process.env.HOST || "0.0.0.0";
@@ -67,61 +71,42 @@ function pickRandomSong() {
 
 /** ---------- REST ---------- */
 
-app.get("/api/songs", (_req, res) => {
-  const cacheRoot = path.join(process.cwd(), "cache");
-  const items: Array<{
-    id: string;
-    title: string;
-    videoFile: string;
-    channelTitle: string;
-    instrumentalUrl: string;
-    vocalsUrl: string;
-    preparedAt: string;
-  }> = [];
-
-  if (fs.existsSync(cacheRoot)) {
-    const dirs = fs
-      .readdirSync(cacheRoot, { withFileTypes: true })
-      .filter((d) => d.isDirectory())
-      .map((d) => d.name);
-
-    for (const videoId of dirs) {
-      const videoDir = path.join(cacheRoot, videoId);
-      const instPath = path.join(videoDir, "instrumental.wav");
-      const voxPath = path.join(videoDir, "vocals.wav");
-      if (!fs.existsSync(instPath) || !fs.existsSync(voxPath)) continue;
-
-      let title = videoId;
-      let channelTitle = "Unknown";
-      const metaPath = path.join(videoDir, "meta.json");
-      if (fs.existsSync(metaPath)) {
-        try {
-          const raw = fs.readFileSync(metaPath, "utf-8");
-          const meta = JSON.parse(raw) as { title?: string; channelTitle?: string };
-          if (typeof meta.title === "string" && meta.title.trim()) title = meta.title;
-          if (typeof meta.channelTitle === "string" && meta.channelTitle.trim()) channelTitle = meta.channelTitle;
-        } catch {
-          // ignore malformed meta
-        }
-      }
-
-      const stat = fs.statSync(instPath);
-      items.push({
-        id: videoId,
-        title,
-        videoFile: `${videoId}.mp4`,
-        channelTitle,
-        instrumentalUrl: `/cache/${videoId}/instrumental.wav`,
-        vocalsUrl: `/cache/${videoId}/vocals.wav`,
-        preparedAt: stat.mtime.toISOString(),
-      });
-    }
-  }
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Catalog filters shared by the song lists:
+ * ?q=&source=youtube|url|library|upload&lyrics=true|false
+ * &sort=preparedAt|lastPlayedAt|title|duration&order=asc|desc&offset=&limit=
+ */
+function catalogQueryFromRequest(query: Record<string, unknown>, defaultLimit?: number): CatalogQuery {
+  const str = (key: string) => (typeof query[key] === "string" ? (query[key] as string) : undefined);
+  const num = (key: string) => {
+    const n = Number(str(key));
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+  };
+
+  const sort = str("sort");
+  const source = str("source");
+  const lyrics = str("lyrics");
+  const limit = num("limit") ?? defaultLimit;
+  return {
+    q: str("q"),
+    source:
+      source === "youtube" || source === "url" || source === "library" || source === "upload" ? source : undefined,
+    hasLyrics: lyrics === "true" ? true : lyrics === "false" ? false : undefined,
+    sort: CATALOG_SORTS.find((s) => s === sort),
+    order: str("order") === "asc" ? "asc" : "desc",
+    offset: num("offset"),
+    limit: limit === undefined ? undefined : Math.max(1, Math.min(limit, MAX_PAGE_SIZE)),
+  };
+}
 
-  items.sort((a, b) => (a.preparedAt < b.preparedAt ? 1 : -1));
+// Prepared songs from the catalog; the whole list unless ?limit= is given. X-Total-Count has the match count.
+app.get("/api/songs", (req, res) => {
+  const { total, items } = queryCatalog(catalogQueryFromRequest(req.query));
 
   // Backward compatible fallback when cache is empty
-  if (items.length === 0) {
+  if (total === 0 && Object.keys(req.query).length === 0) {
     return res.json(
       PLAYLIST.map((s) => ({
         id: s.file,
@@ -131,7 +116,16 @@ app.get("/api/songs", (_req, res) => {
     );
   }
 
-  return res.json(items);
+  res.set("X-Total-Count", String(total));
+  return res.json(
+    items.map((entry) => ({
+      id: entry.videoId,
+      title: entry.title,
+      videoFile: `${entry.videoId}.mp4`,
+      channelTitle: entry.channelTitle,
+      ...preparedSongFields(entry),
+    }))
+  );
 });
 
 // YouTube search endpoint
@@ -143,77 +137,37 @@ app.use("/api/prepare", prepareRouter);
 // Lyrics endpoint (captions if available)
 app.use("/api/lyrics", lyricsRouter);
 
+// Stem streaming with Range/ETag/Cache-Control
+app.use("/api/media", mediaRouter);
+
+// Cache usage and manual removal
+app.use("/api/cache", cacheRouter);
+
 // Serve cache files statically
 app.use("/cache", express.static("cache"));
 
 /**
  * What People Are Singing (Option A):
- * list recently prepared songs by scanning ./cache
+ * list recently prepared songs from the catalog
  *
- * GET /api/activity/recent?limit=12
- * returns: [{ videoId, title, channelTitle, instrumentalUrl, vocalsUrl, preparedAt }]
+ * GET /api/activity/recent?limit=12&offset=0 (plus the /api/songs filters)
+ * returns: { items: [{ videoId, title, channelTitle, instrumentalUrl, vocalsUrl, preparedAt }], total }
  *
- * title/channelTitle are read from cache/<videoId>/meta.json if present.
+ * title/channelTitle come from cache/<videoId>/meta.json as indexed.
  */
 app.get("/api/activity/recent", (req, res) => {
-  const limitRaw = req.query.limit as string | undefined;
-  const limit = Math.max(1, Math.min(Number(limitRaw || 12), 50));
-
-  const cacheRoot = path.join(process.cwd(), "cache");
-  if (!fs.existsSync(cacheRoot)) {
-    return res.json({ items: [] });
-  }
-
-  const dirs = fs
-    .readdirSync(cacheRoot, { withFileTypes: true })
-    .filter((d) => d.isDirectory())
-    .map((d) => d.name);
-
-  const items: Array<{
-    videoId: string;
-    title: string;
-    channelTitle: string;
-    instrumentalUrl: string;
-    vocalsUrl: string;
-    preparedAt: string;
-  }> = [];
-
-  for (const videoId of dirs) {
-    const videoDir = path.join(cacheRoot, videoId);
-    const instPath = path.join(videoDir, "instrumental.wav");
-    const voxPath = path.join(videoDir, "vocals.wav");
-
-    if (!fs.existsSync(instPath) || !fs.existsSync(voxPath)) continue;
-
-    // Read meta if exists
-    let title = videoId;
-    let channelTitle = "Unknown";
-    const metaPath = path.join(videoDir, "meta.json");
-    if (fs.existsSync(metaPath)) {
-      try {
-        const metaRaw = fs.readFileSync(metaPath, "utf-8");
-        const meta = JSON.parse(metaRaw) as { title?: string; channelTitle?: string };
-        if (meta.title && typeof meta.title === "string") title = meta.title;
-        if (meta.channelTitle && typeof meta.channelTitle === "string") channelTitle = meta.channelTitle;
-      } catch {
-        // ignore meta parse errors
-      }
-    }
-
-    const stat = fs.statSync(instPath);
-    items.push({
-      videoId,
-      title,
-      channelTitle,
-      instrumentalUrl: `/cache/${videoId}/instrumental.wav`,
-      vocalsUrl: `/cache/${videoId}/vocals.wav`,
-      preparedAt: stat.mtime.toISOString(),
-    });
-  }
-
-  items.sort((a, b) => (a.preparedAt < b.preparedAt ? 1 : -1));
-
-  return res.json({ items: items.slice(0, limit) });
+  const query = catalogQueryFromRequest(req.query, 12);
+  const { total, items } = queryCatalog({ ...query, limit: Math.min(query.limit ?? 12, 50) });
+
+  return res.json({
+    items: items.map((entry) => ({
+      videoId: entry.videoId,
+      title: entry.title,
+      channelTitle: entry.channelTitle,
+      ...preparedSongFields(entry),
+    })),
+    total,
+  });
 });
 
 app.post("/api/rooms/join", (req, res) => {
@@ -287,6 +241,20 @@ io.on("connection", (socket) => {
     broadcastScores();
   });
 
+  // Prepare job progress: clients subscribe by jobId and get the current state right away.
+  socket.on("JOB_SUBSCRIBE", (payload: { jobId: string }) => {
+    const jobId = typeof payload?.jobId === "string" ? payload.jobId : "";
+    if (!jobId) return;
+
+    socket.join(jobRoom(jobId));
+    const job = getJob(jobId);
+    if (job) socket.emit("JOB_PROGRESS", jobStatusPayload(job));
+  });
+
+  socket.on("JOB_UNSUBSCRIBE", (payload: { jobId: string }) => {
+    if (typeof payload?.jobId === "string") socket.leave(jobRoom(payload.jobId));
+  });
+
   socket.on("disconnect", () => {
     for (const [roomId, room] of rooms.entries()) {
       if (room.socketId === socket.id) rooms.delete(roomId);
@@ -295,6 +263,16 @@ io.on("connection", (socket) => {
   });
 });
 
+function jobRoom(jobId: string) {
+  return `job:${jobId}`;
+}
+
+onJobProgress((jobId) => {
+  const job = getJob(jobId);
+  if (!job) return;
+  io.to(jobRoom(jobId)).emit("JOB_PROGRESS", jobStatusPayload(job));
+});
+
 function broadcastRooms() {
   io.emit(
     "ROOMS_UPDATE",
@@ -315,6 +293,27 @@ function broadcastScores() {
   });
 }
 
+// The song lists read from the catalog only; a missing one is built from cache/ here.
+try {
+  await loadCatalog();
+} catch (error) {
+  console.error("[Catalog] Failed to load catalog:", error);
+}
+
+// Restore persisted prepare jobs before clients start polling their status again.
+try {
+  await resumeInterruptedJobs();
+} catch (error) {
+  console.error("[Jobs] Failed to resume interrupted jobs:", error);
+}
+
+// After resuming, so songs whose jobs are back in the queue count as in use.
+try {
+  enforceCacheQuota();
+} catch (error) {
+  console.error("[Cache] Failed to enforce quota:", error);
+}
+
 httpServer.listen(PORT, HOST, () => {
   console.log(`server listening on http://${HOST}:${PORT}`);
 });
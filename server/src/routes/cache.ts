@@ -0,0 +1,154 @@
+import { Router, type Response } from "express";
+
+import { isValidCacheId } from "../services/cachePaths.js";
+import { CacheError, cacheQuotaBytes, listCacheEntries, removeCacheEntry } from "../services/cacheManager.js";
+import { verifyCache, type EntryReport } from "../services/cacheIntegrity.js";
+import {
+  exportSongPackage,
+  importSongPackage,
+  PackageError,
+  packageFileName,
+  toPackageError,
+  uploadPackage,
+} from "../services/songPackage.js";
+import { requeuePrepare } from "./prepare.js";
+
+const router = Router();
+
+// When set, these admin endpoints need "Authorization: Bearer <token>"; unset keeps them open on a trusted LAN.
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+
+router.use((req, res, next) => {
+  if (!ADMIN_TOKEN || req.get("authorization") === `Bearer ${ADMIN_TOKEN}`) return next();
+  res.status(401).json({ error: "Admin token required", code: "UNAUTHORIZED" });
+});
+
+// GET /api/cache - Cached songs with their size on disk, least recently sung first
+router.get("/", (_req, res) => {
+  const entries = listCacheEntries();
+  res.json({
+    quotaBytes: cacheQuotaBytes(),
+    totalBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+    entries,
+  });
+});
+
+function verifyPayload(reports: EntryReport[]) {
+  const damaged = reports.filter((report) => report.issues.length > 0);
+  return { checked: reports.length, damaged: damaged.length, entries: damaged };
+}
+
+// GET /api/cache/verify?deep=true - Report truncated, corrupt and leftover files (deep also compares checksums)
+router.get("/verify", async (req, res) => {
+  try {
+    const reports = await verifyCache({ deep: req.query.deep === "true" });
+    return res.json(verifyPayload(reports));
+  } catch (error) {
+    console.error("[Integrity] Verify failed:", error);
+    return res.status(500).json({ error: "Failed to verify cache" });
+  }
+});
+
+// POST /api/cache/verify?deep=true - Same check, then remove what is damaged and re-queue songs that lost stems
+router.post("/verify", async (req, res) => {
+  try {
+    const reports = await verifyCache({ deep: req.query.deep === "true", repair: true, requeue: requeuePrepare });
+    return res.json(verifyPayload(reports));
+  } catch (error) {
+    console.error("[Integrity] Repair failed:", error);
+    return res.status(500).json({ error: "Failed to repair cache" });
+  }
+});
+
+const PACKAGE_ERROR_STATUS: Record<PackageError["code"], number> = {
+  NO_FILE: 400,
+  FILE_TOO_LARGE: 413,
+  INVALID_PACKAGE: 422,
+  NOT_PREPARED: 404,
+  EXISTS: 409,
+  IN_USE: 409,
+};
+
+function sendPackageError(res: Response, error: PackageError) {
+  return res.status(PACKAGE_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+}
+
+// POST /api/cache/import?replace=true - Install a song package (multipart: package)
+router.post("/import", (req, res) => {
+  uploadPackage(req, res, async (error: unknown) => {
+    if (error) {
+      const rejection = toPackageError(error);
+      if (!rejection) {
+        console.error("[Package] Failed to receive package:", error);
+        return res.status(500).json({ error: "Failed to receive package" });
+      }
+      return sendPackageError(res, rejection);
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: "A package file is required", code: "NO_FILE" });
+    }
+
+    try {
+      const installed = await importSongPackage(req.file.path, { replace: req.query.replace === "true" });
+      return res.json({ ...installed, installed: true });
+    } catch (importError) {
+      if (importError instanceof PackageError) {
+        return sendPackageError(res, importError);
+      }
+      console.error("[Package] Import failed:", importError);
+      return res.status(500).json({ error: "Failed to import package" });
+    }
+  });
+});
+
+// GET /api/cache/:videoId/export - Download a song's stems, meta.json and lyrics as one .tar package
+router.get("/:videoId/export", async (req, res) => {
+  const { videoId } = req.params;
+
+  if (!isValidCacheId(videoId)) {
+    return res.status(400).json({ error: "Invalid videoId", code: "INVALID_VIDEO_ID" });
+  }
+
+  res.setHeader("Content-Type", "application/x-tar");
+  res.setHeader("Content-Disposition", `attachment; filename="${packageFileName(videoId)}"`);
+  try {
+    await exportSongPackage(videoId, res);
+  } catch (error) {
+    if (res.headersSent) {
+      // Mid-stream: all we can do is cut the download short so it can't be mistaken for a whole package.
+      console.error(`[Package] Export of ${videoId} aborted:`, error instanceof Error ? error.message : error);
+      return res.destroy();
+    }
+    res.removeHeader("Content-Type");
+    res.removeHeader("Content-Disposition");
+    if (error instanceof PackageError) {
+      return sendPackageError(res, error);
+    }
+    console.error(`[Package] Export of ${videoId} failed:`, error);
+    return res.status(500).json({ error: "Failed to export song" });
+  }
+});
+
+// DELETE /api/cache/:videoId - Remove a song's downloads, stems and lyrics
+router.delete("/:videoId", (req, res) => {
+  const { videoId } = req.params;
+
+  if (!isValidCacheId(videoId)) {
+    return res.status(400).json({ error: "Invalid videoId", code: "INVALID_VIDEO_ID" });
+  }
+
+  try {
+    const removed = removeCacheEntry(videoId);
+    console.log(`[Cache] Removed ${videoId} by request (${removed.sizeBytes} bytes)`);
+    return res.json({ videoId, removed: true, freedBytes: removed.sizeBytes });
+  } catch (error) {
+    if (error instanceof CacheError) {
+      const status = error.code === "NOT_FOUND" ? 404 : 409;
+      return res.status(status).json({ error: error.message, code: error.code });
+    }
+    console.error(`[Cache] Failed to remove ${videoId}:`, error);
+    return res.status(500).json({ error: "Failed to remove cached song" });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import { isValidCacheId } from "../services/cachePaths.js";
 import { getLyrics } from "../services/lyrics.js";
 
 const router = Router();
@@ -9,6 +10,9 @@ router.get("/", async (req, res) => {
   if (!videoId) {
     return res.status(400).json({ error: "videoId is required" });
   }
+  if (!isValidCacheId(videoId)) {
+    return res.status(400).json({ error: "Invalid videoId", code: "INVALID_VIDEO_ID" });
+  }
 
   try {
     const data = await getLyrics(videoId);
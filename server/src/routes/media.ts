@@ -0,0 +1,66 @@
+import { Router } from "express";
+import * as path from "node:path";
+import * as fs from "node:fs";
+
+import { isValidCacheId, resolveCacheDir } from "../services/cachePaths.js";
+import { markPlayed } from "../services/cacheManager.js";
+import { isMediaFileName } from "../services/renditions.js";
+
+const router = Router();
+
+// Stems only change when a song is separated again; revalidating daily via ETag is plenty.
+const MEDIA_MAX_AGE_SECONDS = Number(process.env.MEDIA_MAX_AGE_SECONDS || 24 * 60 * 60);
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".wav": "audio/wav",
+  ".opus": "audio/ogg; codecs=opus",
+  ".m4a": "audio/mp4",
+};
+
+// GET /api/media/:videoId/:file - Stream a stem (WAV master or Opus/AAC rendition)
+// Range requests get 206 partial content; If-None-Match / If-Modified-Since get 304.
+router.get("/:videoId/:file", (req, res) => {
+  const { videoId, file } = req.params;
+
+  if (!isValidCacheId(videoId)) {
+    return res.status(400).json({ error: "Invalid videoId", code: "INVALID_VIDEO_ID" });
+  }
+  if (!isMediaFileName(file)) {
+    return res.status(404).json({ error: "Not found" });
+  }
+
+  const filePath = path.join(resolveCacheDir(videoId), file);
+  if (!fs.existsSync(filePath)) {
+    return res.status(404).json({ error: "Not found" });
+  }
+
+  // Streaming a stem is what "sung" means for cache eviction.
+  markPlayed(videoId);
+
+  // sendFile handles Range/If-Range, weak ETags (size + mtime) and conditional GETs.
+  res.sendFile(
+    filePath,
+    {
+      acceptRanges: true,
+      etag: true,
+      lastModified: true,
+      cacheControl: false,
+      dotfiles: "deny",
+      headers: {
+        "Content-Type": CONTENT_TYPES[path.extname(file)],
+        "Cache-Control": `public, max-age=${MEDIA_MAX_AGE_SECONDS}`,
+      },
+    },
+    (error) => {
+      if (!error || res.headersSent) return;
+      if ((error as { status?: number }).status === 416) {
+        // Range starts past the end of the file
+        return res.status(416).set("Content-Range", `bytes */${fs.statSync(filePath).size}`).end();
+      }
+      console.error(`[Media] Failed to send ${videoId}/${file}:`, error);
+      res.status(500).json({ error: "Failed to read media" });
+    }
+  );
+});
+
+export default router;
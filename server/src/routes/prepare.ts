@@ -1,156 +1,730 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import * as path from "node:path";
 import * as fs from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
 
+import { findSourceAudio, isValidVideoId, resolveCacheDir } from "../services/cachePaths.js";
+import { enforceCacheQuota } from "../services/cacheManager.js";
+import { indexSong } from "../services/catalog.js";
+import { writeManifest } from "../services/cacheIntegrity.js";
 import { downloadAudio } from "../services/downloader.js";
-import { separateVocals } from "../services/separator.js";
+import {
+  getMediaSource,
+  isMediaSourceKind,
+  probeLocalFile,
+  SourceRequestError,
+  type MediaSourceRef,
+} from "../services/mediaSources.js";
+import {
+  bandStemUrls,
+  getSeparator,
+  isSeparated,
+  parseSeparatorChoice,
+  separateVocals,
+  separationCovers,
+  SeparatorRequestError,
+  type SeparatorChoice,
+} from "../services/separator.js";
+import { readSongMeta, updateSongMeta } from "../services/songMeta.js";
+import { analyzeStemLoudness, estimatePlaybackGain } from "../services/loudness.js";
+import { analyzeStemQuality } from "../services/stemQuality.js";
+import { partialStemFileName } from "../services/progressiveSeparation.js";
+import { createRenditions, stemMediaUrls } from "../services/renditions.js";
+import { checkSourceLimits, SourceRejectedError, type SourceFacts } from "../services/sourceLimits.js";
+import {
+  createJob,
+  findActiveJobForVideo,
+  getJob,
+  initJobStore,
+  isActiveJob,
+  listJobs,
+  updateJob,
+  type PrepareJob,
+} from "../services/jobStore.js";
+import { emitJobProgress } from "../services/jobEvents.js";
+import { isAbortError, parseClockSeconds, type ToolProgress } from "../services/processRunner.js";
+import { classifyPrepareError, PrepareError, type PrepareStep } from "../services/prepareErrors.js";
+import { storeUploadedAudio, toUploadRejection, uploadAudio } from "../services/uploads.js";
+import { createWorkerPool } from "../services/workerPool.js";
 
 const router = Router();
 
-// In-memory job store (replace with Redis in production)
-const jobs = new Map<
-  string,
-  {
-    jobId: string;
-    videoId: string;
-    title: string;
-    channelTitle: string;
-    status: "pending" | "downloading" | "separating" | "complete" | "error";
-    progress: number;
-    stage: string;
-    error?: string;
-    result?: {
-      instrumentalPath: string;
-      vocalsPath: string;
+// Interrupted jobs are resumed on boot; after this many attempts they are marked failed instead.
+const MAX_JOB_ATTEMPTS = Number(process.env.MAX_JOB_ATTEMPTS || 3);
+
+// Demucs saturates the CPU, so separations get their own (small) limit independent of downloads.
+const downloadPool = createWorkerPool(
+  "download",
+  Number(process.env.MAX_CONCURRENT_DOWNLOADS || 2),
+  30_000,
+  notifyQueuedJobs
+);
+const separationPool = createWorkerPool(
+  "separation",
+  Number(process.env.MAX_CONCURRENT_SEPARATIONS || 1),
+  180_000,
+  notifyQueuedJobs
+);
+
+// Transient failures (network, slow download) are retried with exponential backoff.
+const PREPARE_MAX_RETRIES = Number(process.env.PREPARE_MAX_RETRIES || 2);
+const PREPARE_RETRY_BASE_MS = Number(process.env.PREPARE_RETRY_BASE_MS || 2000);
+
+// Share of overall job progress covered by each step.
+const DOWNLOAD_PROGRESS_RANGE: [number, number] = [5, 30];
+const SEPARATION_PROGRESS_RANGE: [number, number] = [30, 95];
+const QUALITY_PROGRESS = 96;
+const LOUDNESS_PROGRESS = 97;
+const RENDITIONS_PROGRESS = 98;
+// Tools print progress many times per second; persist at most this often.
+const PROGRESS_THROTTLE_MS = 500;
+
+// Abort handles for jobs running in this process; aborting kills their yt-dlp/Demucs children.
+const controllers = new Map<string, AbortController>();
+
+// Everyone still waiting moved up a place when a slot opened.
+function notifyQueuedJobs() {
+  for (const job of listJobs()) {
+    if (job.status === "queued") emitJobProgress(job.jobId);
+  }
+}
+
+function queueInfo(jobId: string): { queuePosition: number; estimatedWaitSeconds: number } | null {
+  for (const pool of [downloadPool, separationPool]) {
+    const queuePosition = pool.queuePosition(jobId);
+    if (queuePosition === null) continue;
+    return {
+      queuePosition,
+      estimatedWaitSeconds: Math.round((pool.estimatedWaitMs(jobId) ?? 0) / 1000),
     };
   }
->();
+  return null;
+}
 
-function writeMeta(videoId: string, meta: { title: string; channelTitle: string }) {
-  const cacheDir = path.join(process.cwd(), "cache", videoId);
-  if (!fs.existsSync(cacheDir)) fs.mkdirSync(cacheDir, { recursive: true });
+/**
+ * Public view of a job, shared by the status endpoint and JOB_PROGRESS socket events.
+ */
+export function jobStatusPayload(job: PrepareJob) {
+  const queue = queueInfo(job.jobId);
 
-  const metaPath = path.join(cacheDir, "meta.json");
-  const payload = {
-    videoId,
-    title: meta.title,
-    channelTitle: meta.channelTitle,
-    preparedAt: new Date().toISOString(),
+  return {
+    jobId: job.jobId,
+    videoId: job.videoId,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    stageProgress: job.stageProgress ?? null,
+    etaSeconds: job.etaSeconds ?? null,
+    error: job.error,
+    errorCode: job.errorCode,
+    queuePosition: queue?.queuePosition ?? null,
+    estimatedWaitSeconds: queue?.estimatedWaitSeconds ?? null,
+    result:
+      job.status === "complete"
+        ? {
+            instrumentalUrl: `/cache/${job.videoId}/instrumental.wav`,
+            vocalsUrl: `/cache/${job.videoId}/vocals.wav`,
+            // drums/bass/other URLs for four-stem songs, null otherwise
+            stems: bandStemUrls(job.videoId),
+            // Streaming URLs per stem (WAV plus Opus/AAC renditions) via /api/media
+            media: stemMediaUrls(job.videoId),
+            gainDb: readSongMeta(job.videoId)?.loudness?.gainDb ?? null,
+          }
+        : undefined,
+    // Stems for the first `readySeconds` while the rest is still being separated; clients may start on these.
+    partial:
+      job.partial && isActiveJob(job)
+        ? {
+            revision: job.partial.revision,
+            readySeconds: job.partial.readySeconds,
+            totalSeconds: job.partial.totalSeconds,
+            instrumentalUrl: `/api/media/${job.videoId}/${partialStemFileName("instrumental", job.partial.revision)}`,
+            vocalsUrl: `/api/media/${job.videoId}/${partialStemFileName("vocals", job.partial.revision)}`,
+            gainDb: job.partial.gainDb,
+          }
+        : null,
+  };
+}
+
+/**
+ * Map a tool's own 0-100% onto the step's slice of overall progress, dropping
+ * updates that don't move the integer percentage or arrive faster than the throttle.
+ */
+function createProgressReporter(
+  report: (patch: Parameters<typeof updateJob>[1]) => void,
+  [from, to]: [number, number]
+) {
+  let lastPercent = -1;
+  let lastAt = 0;
+
+  return (progress: ToolProgress) => {
+    const percent = Math.max(0, Math.min(100, Math.floor(progress.percent)));
+    const now = Date.now();
+    if (percent === lastPercent) return;
+    if (percent < 100 && now - lastAt < PROGRESS_THROTTLE_MS) return;
+
+    lastPercent = percent;
+    lastAt = now;
+    report({
+      progress: Math.round(from + ((to - from) * percent) / 100),
+      stageProgress: percent,
+      etaSeconds: progress.etaSeconds,
+    });
   };
+}
+
+/**
+ * Run one step, retrying retryable failures. Anything that gives up is thrown as a classified PrepareError.
+ */
+async function runWithRetry<T>(
+  step: PrepareStep,
+  fn: () => Promise<T>,
+  signal: AbortSignal,
+  onRetry: (attempt: number, delayMs: number, error: PrepareError) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) throw error;
+
+      const classified = classifyPrepareError(error, step);
+      if (!classified.retryable || attempt >= PREPARE_MAX_RETRIES) throw classified;
+
+      const delayMs = PREPARE_RETRY_BASE_MS * 2 ** attempt;
+      onRetry(attempt + 1, delayMs, classified);
+      await sleep(delayMs, undefined, { signal });
+    }
+  }
+}
 
-  fs.writeFileSync(metaPath, JSON.stringify(payload, null, 2), "utf-8");
+// Every stage/progress transition goes through here so socket subscribers see it.
+function setJobState(jobId: string, patch: Parameters<typeof updateJob>[1]) {
+  const job = updateJob(jobId, patch);
+  if (job) emitJobProgress(jobId);
+  return job;
 }
 
-// POST /api/prepare - Start processing a YouTube video
+// Request field carrying the reference for each provider that can be requested as JSON.
+const SOURCE_REF_FIELDS = { youtube: "videoId", url: "url", library: "path" } as const;
+
+// POST /api/prepare - Start processing a song from YouTube (default), a direct URL or the media library
 router.post("/", async (req, res) => {
-  const { videoId, title, channelTitle } = req.body as {
-    videoId: string;
+  const body = (req.body || {}) as {
+    source?: string;
+    videoId?: string;
+    url?: string;
+    path?: string;
     title?: string;
     channelTitle?: string;
+    // Search-result duration ("3:45"), used to reject obviously long videos without probing.
+    duration?: string;
+    // "demucs" | "ffmpeg" | "auto" and a Demucs model; default to the server config.
+    separator?: string;
+    model?: string;
+    // 4 adds drums/bass/other stems (Demucs only).
+    stems?: number | string;
   };
+  const { title, channelTitle } = body;
 
-  if (!videoId) {
-    return res.status(400).json({ error: "videoId is required" });
+  const kind = body.source ?? "youtube";
+  if (!isMediaSourceKind(kind)) {
+    return res.status(400).json({ error: `Unknown source: ${kind}`, code: "UNSUPPORTED_SOURCE" });
   }
 
-  const safeTitle = (title || "Unknown").toString();
-  const safeChannelTitle = (channelTitle || "Unknown").toString();
+  const field = kind === "upload" ? null : SOURCE_REF_FIELDS[kind];
+  const rawRef = field ? body[field] : undefined;
+  if (field && !rawRef) {
+    return res.status(400).json({ error: `${field} is required` });
+  }
 
-  const jobId = `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  let videoId: string;
+  let source: MediaSourceRef;
+  let separator: SeparatorChoice;
+  try {
+    const resolved = getMediaSource(kind).resolve(String(rawRef ?? ""));
+    videoId = resolved.videoId;
+    source = { kind, ref: resolved.ref };
+    separator = parseSeparatorChoice(body.separator, body.model, body.stems);
+  } catch (error) {
+    if (error instanceof SourceRequestError || error instanceof SeparatorRequestError) {
+      return res.status(400).json({ error: error.message, code: error.code });
+    }
+    throw error;
+  }
 
-  // Create job
-  jobs.set(jobId, {
-    jobId,
-    videoId,
-    title: safeTitle,
-    channelTitle: safeChannelTitle,
-    status: "pending",
-    progress: 0,
-    stage: "initializing",
-  });
+  // Someone is already preparing this song the same way: share their job instead of separating twice.
+  if (attachToActiveJob(videoId, separator, res)) return;
 
-  // Start processing in background
-  processVideo(jobId, videoId, safeTitle, safeChannelTitle);
+  // The search-result duration rejects obvious cases instantly; the job probes the real source.
+  // Already-separated songs were accepted once.
+  const clientDuration = body.duration ? parseClockSeconds(body.duration) : null;
+  if (clientDuration && !isSeparated(videoId)) {
+    try {
+      checkSourceLimits({ durationSeconds: clientDuration });
+    } catch (error) {
+      if (error instanceof SourceRejectedError) {
+        console.log(`[Limits] Rejected ${source.kind} source ${source.ref} (${error.code})`);
+        return res.status(422).json({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
+  }
+
+  const jobId = startJob(videoId, source, separator, title, channelTitle);
 
   res.json({
     jobId,
+    videoId,
     status: "pending",
     message: "Processing started",
   });
 });
 
+// POST /api/prepare/upload - Prepare a local audio file (multipart: file, title, artist, separator, model, stems)
+router.post("/upload", (req, res) => {
+  uploadAudio(req, res, async (error: unknown) => {
+    if (error) {
+      const rejection = toUploadRejection(error);
+      if (!rejection) {
+        console.error("[Upload] Failed to receive file:", error);
+        return res.status(500).json({ error: "Failed to receive upload" });
+      }
+      const status = rejection.code === "FILE_TOO_LARGE" ? 413 : 400;
+      return res.status(status).json({ error: rejection.message, code: rejection.code });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: "An audio file is required", code: "NO_FILE" });
+    }
+    const file = req.file;
+
+    // multer doesn't await this callback: anything thrown here would leave the request hanging.
+    // The stored upload is removed again unless a job took it over.
+    let storedId: string | null = null;
+    try {
+      const { title, artist, ...fields } = (req.body || {}) as {
+        title?: string;
+        artist?: string;
+        separator?: string;
+        model?: string;
+        stems?: string;
+      };
+
+      let separator: SeparatorChoice;
+      try {
+        separator = parseSeparatorChoice(fields.separator, fields.model, fields.stems);
+      } catch (choiceError) {
+        fs.rmSync(file.path, { force: true });
+        if (choiceError instanceof SeparatorRequestError) {
+          return res.status(400).json({ error: choiceError.message, code: choiceError.code });
+        }
+        console.error("[Upload] Failed to read separator options:", choiceError);
+        return res.status(500).json({ error: "Failed to prepare upload" });
+      }
+
+      let stored: { videoId: string; audioPath: string };
+      try {
+        stored = storeUploadedAudio(file);
+      } catch (storeError) {
+        const rejection = toUploadRejection(storeError);
+        if (rejection) return res.status(400).json({ error: rejection.message, code: rejection.code });
+        console.error("[Upload] Failed to store file:", storeError);
+        return res.status(500).json({ error: "Failed to store upload" });
+      }
+      const { videoId } = stored;
+      storedId = videoId;
+
+      try {
+        checkSourceLimits(await probeLocalFile(stored.audioPath));
+      } catch (limitError) {
+        fs.rmSync(resolveCacheDir(videoId), { recursive: true, force: true });
+        if (limitError instanceof SourceRejectedError) {
+          return res.status(422).json({ error: limitError.message, code: limitError.code });
+        }
+        console.error("[Upload] Failed to check file:", limitError);
+        return res.status(500).json({ error: "Failed to store upload" });
+      }
+
+      // Without a title the file name is the best label we have.
+      const fallbackTitle = path.parse(file.originalname).name;
+      const source: MediaSourceRef = { kind: "upload", ref: file.originalname };
+      const jobId = startJob(videoId, source, separator, title?.trim() || fallbackTitle, artist?.trim() || undefined);
+      storedId = null;
+
+      res.json({
+        jobId,
+        videoId,
+        status: "pending",
+        message: "Processing started",
+      });
+    } catch (unexpected) {
+      console.error("[Upload] Failed to prepare upload:", unexpected);
+      fs.rmSync(file.path, { force: true });
+      if (storedId) fs.rmSync(resolveCacheDir(storedId), { recursive: true, force: true });
+      if (!res.headersSent) res.status(500).json({ error: "Failed to prepare upload" });
+    }
+  });
+});
+
 // GET /api/prepare/:jobId/status - Check processing status
 router.get("/:jobId/status", (req, res) => {
   const { jobId } = req.params;
-  const job = jobs.get(jobId);
+  const job = getJob(jobId);
+
+  if (!job) {
+    return res.status(404).json({ error: "Job not found" });
+  }
+
+  res.json(jobStatusPayload(job));
+});
+
+// DELETE /api/prepare/:jobId - Leave a job; the last client leaving cancels it
+router.delete("/:jobId", (req, res) => {
+  const { jobId } = req.params;
+  const job = getJob(jobId);
 
   if (!job) {
     return res.status(404).json({ error: "Job not found" });
   }
 
+  if (!isActiveJob(job)) {
+    return res.json({ jobId, status: job.status, cancelled: false });
+  }
+
+  // Other clients attached to this job are still waiting for it.
+  if (job.subscribers > 1) {
+    updateJob(jobId, { subscribers: job.subscribers - 1 });
+    return res.json({ jobId, status: job.status, cancelled: false });
+  }
+
+  console.log(`[Job ${jobId}] Cancelled by client`);
+  setJobState(jobId, { status: "cancelled", progress: 0, stage: "Cancelled", subscribers: 0 });
+  controllers.get(jobId)?.abort();
+
+  res.json({ jobId, status: "cancelled", cancelled: true });
+});
+
+/**
+ * Share a running job for `videoId` when it produces what this request asks for. Otherwise
+ * (e.g. four stems asked while a two-stem job runs) the caller starts its own job, which waits
+ * on the song's download/separation locks and so runs as an upgrade once the first finishes.
+ */
+function attachToActiveJob(videoId: string, separator: SeparatorChoice, res: Response): boolean {
+  const inFlight = listJobs().find(
+    (job) => job.videoId === videoId && isActiveJob(job) && separationCovers(job.separator, separator)
+  );
+  if (!inFlight) return false;
+
+  console.log(`[Job ${inFlight.jobId}] Attaching duplicate request for ${videoId}`);
+  updateJob(inFlight.jobId, { subscribers: inFlight.subscribers + 1 });
   res.json({
-    jobId: job.jobId,
-    status: job.status,
-    progress: job.progress,
-    stage: job.stage,
-    error: job.error,
-    result:
-      job.status === "complete"
-        ? {
-            instrumentalUrl: `/cache/${job.videoId}/instrumental.wav`,
-            vocalsUrl: `/cache/${job.videoId}/vocals.wav`,
-          }
-        : undefined,
+    jobId: inFlight.jobId,
+    videoId,
+    status: inFlight.status,
+    message: "Joined in-progress preparation",
+    attached: true,
   });
-});
+  return true;
+}
+
+/**
+ * Guardrails before anything is fetched: the provider probes the real source. A failed
+ * probe doesn't block; the download step reports real problems with a proper error code.
+ */
+async function checkSourceBeforePrepare(source: MediaSourceRef) {
+  let facts: SourceFacts;
+  try {
+    facts = await getMediaSource(source.kind).probe(source.ref);
+  } catch (error) {
+    console.warn(`[Limits] Could not probe ${source.kind} source ${source.ref}:`, error instanceof Error ? error.message : error);
+    return;
+  }
+  checkSourceLimits(facts);
+}
+
+function startJob(
+  videoId: string,
+  source: MediaSourceRef,
+  separator: SeparatorChoice,
+  title?: string,
+  channelTitle?: string
+): string {
+  const jobId = `job_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  createJob({
+    jobId,
+    videoId,
+    source,
+    separator,
+    title: (title || "Unknown").toString(),
+    channelTitle: (channelTitle || "Unknown").toString(),
+    status: "pending",
+    progress: 0,
+    stage: "initializing",
+    attempts: 0,
+    subscribers: 1,
+  });
+
+  // Start processing in background
+  processVideo(jobId);
+  return jobId;
+}
 
 // Background processing function
-async function processVideo(jobId: string, videoId: string, title: string, channelTitle: string) {
-  const job = jobs.get(jobId);
+async function processVideo(jobId: string) {
+  const job = getJob(jobId);
   if (!job) return;
 
+  const { videoId, title, channelTitle } = job;
+  const source: MediaSourceRef = job.source ?? { kind: "youtube", ref: videoId };
+  const provider = getMediaSource(source.kind);
+  setJobState(jobId, { attempts: job.attempts + 1 });
+
+  const controller = new AbortController();
+  const { signal } = controller;
+  controllers.set(jobId, controller);
+
+  // Once cancelled, the DELETE handler owns the job state; late transitions must not revive it.
+  const update = (patch: Parameters<typeof updateJob>[1]) => {
+    if (!signal.aborted) setJobState(jobId, patch);
+  };
+
+  // Already-separated songs finish immediately instead of waiting behind other jobs.
+  // Local sources (uploads, library files) don't need a download slot either.
+  const skipQueues = isSeparated(videoId, job.separator);
+  const skipDownloadQueue = skipQueues || !provider.remote;
+
+  let step: PrepareStep = "download";
+
   try {
+    // Step 0: Source guardrails, for sources not fetched yet. Runs in the job so it can be followed and cancelled.
+    if (!skipQueues && !findSourceAudio(resolveCacheDir(videoId))) {
+      update({ status: "pending", stage: "Checking the source" });
+      await checkSourceBeforePrepare(source);
+      signal.throwIfAborted();
+    }
+
     // Step 1: Download
-    job.status = "downloading";
-    job.progress = 10;
-    job.stage = "Downloading audio from YouTube";
-    jobs.set(jobId, { ...job });
+    if (!skipDownloadQueue) update({ status: "queued", stage: "Waiting for a download slot" });
 
-    const downloadResult = await downloadAudio(videoId, title);
+    const download = () => {
+      update({
+        status: "downloading",
+        progress: DOWNLOAD_PROGRESS_RANGE[0],
+        stageProgress: 0,
+        etaSeconds: null,
+        stage: provider.stage,
+      });
+      return runWithRetry(
+        "download",
+        () =>
+          downloadAudio(videoId, title, source, {
+            signal,
+            onProgress: createProgressReporter(update, DOWNLOAD_PROGRESS_RANGE),
+          }),
+        signal,
+        (attempt, delayMs, error) => {
+          console.warn(`[Job ${jobId}] Download attempt failed (${error.code}), retry ${attempt} in ${delayMs}ms`);
+          update({
+            stage: `Connection hiccup, retrying (${attempt}/${PREPARE_MAX_RETRIES})…`,
+            progress: DOWNLOAD_PROGRESS_RANGE[0],
+            stageProgress: 0,
+            etaSeconds: null,
+          });
+        }
+      );
+    };
+    const downloadResult = skipDownloadQueue ? await download() : await downloadPool.run(jobId, download, signal);
 
     // Step 2: Separate vocals
-    job.status = "separating";
-    job.progress = 50;
-    job.stage = "Separating vocals (this may take a few minutes)";
-    jobs.set(jobId, { ...job });
+    step = "separation";
+    update({ status: "queued", stage: "Waiting for a separation slot", stageProgress: null, etaSeconds: null });
 
-    const separationResult = await separateVocals(videoId, downloadResult.audioPath);
+    const separate = () => {
+      update({
+        status: "separating",
+        progress: SEPARATION_PROGRESS_RANGE[0],
+        stageProgress: 0,
+        etaSeconds: null,
+        stage: getSeparator(job.separator).stage,
+        partial: undefined,
+      });
+      // Measured once on the first chunk so partial playback starts near the final level.
+      let partialGainDb: number | null = null;
+      return separateVocals(videoId, downloadResult.audioPath, {
+        signal,
+        separator: job.separator,
+        onProgress: createProgressReporter(update, SEPARATION_PROGRESS_RANGE),
+        onPartial: async (partial) => {
+          if (partial.revision === 1) {
+            partialGainDb = await estimatePlaybackGain(partial.instrumentalPath, signal).catch((e) => {
+              if (signal.aborted || isAbortError(e)) throw e;
+              return null;
+            });
+          }
+          update({
+            partial: {
+              revision: partial.revision,
+              readySeconds: partial.readySeconds,
+              totalSeconds: partial.totalSeconds,
+              gainDb: partialGainDb,
+            },
+          });
+        },
+      });
+    };
+    const separationResult = skipQueues ? await separate() : await separationPool.run(jobId, separate, signal);
+
+    // Step 3: Stem quality. Informational only, so it never fails the job.
+    update({ progress: QUALITY_PROGRESS, stageProgress: null, etaSeconds: null, stage: "Checking the separation" });
+    try {
+      await analyzeStemQuality(videoId, signal);
+    } catch (e) {
+      if (signal.aborted || isAbortError(e)) throw e;
+      console.warn(`[Job ${jobId}] Stem quality check skipped:`, e instanceof Error ? e.message : e);
+    }
+
+    // Step 4: Loudness. Optional: without ffmpeg the song just plays at its own level.
+    update({ progress: LOUDNESS_PROGRESS, stageProgress: null, etaSeconds: null, stage: "Balancing loudness" });
+    try {
+      await analyzeStemLoudness(videoId, signal);
+    } catch (e) {
+      if (signal.aborted || isAbortError(e)) throw e;
+      console.warn(`[Job ${jobId}] Loudness analysis skipped:`, e instanceof Error ? e.message : e);
+    }
+
+    // Step 5: Streaming renditions. Optional too: players fall back to the WAVs.
+    update({ progress: RENDITIONS_PROGRESS, stage: "Encoding for streaming" });
+    try {
+      await createRenditions(videoId, signal);
+    } catch (e) {
+      if (signal.aborted || isAbortError(e)) throw e;
+      console.warn(`[Job ${jobId}] Renditions skipped:`, e instanceof Error ? e.message : e);
+    }
+
+    // Sizes and checksums of everything produced, for the cache integrity check.
+    try {
+      await writeManifest(videoId);
+    } catch (e) {
+      console.warn(`[Job ${jobId}] Manifest not written:`, e instanceof Error ? e.message : e);
+    }
 
     // Save meta for activity list
     try {
-      writeMeta(videoId, { title, channelTitle });
+      updateSongMeta(videoId, {
+        source: source.kind,
+        sourceRef: source.ref,
+        title,
+        channelTitle,
+        preparedAt: new Date().toISOString(),
+      });
     } catch (e) {
       console.warn("[Meta] Failed to write meta.json:", e);
     }
+    indexSong(videoId);
 
     // Complete
-    job.status = "complete";
-    job.progress = 100;
-    job.stage = "Ready to sing!";
-    job.result = {
-      instrumentalPath: separationResult.instrumentalPath,
-      vocalsPath: separationResult.vocalsPath,
-    };
-    jobs.set(jobId, { ...job });
+    update({
+      status: "complete",
+      progress: 100,
+      stageProgress: null,
+      etaSeconds: null,
+      stage: "Ready to sing!",
+      result: {
+        instrumentalPath: separationResult.instrumentalPath,
+        vocalsPath: separationResult.vocalsPath,
+      },
+    });
 
     console.log(`[Job ${jobId}] Complete!`);
+
+    // The new stems may have pushed the cache over quota; the song just prepared is never the one to go.
+    try {
+      enforceCacheQuota(videoId);
+    } catch (e) {
+      console.warn("[Cache] Quota check failed:", e);
+    }
   } catch (error) {
-    console.error(`[Job ${jobId}] Failed:`, error);
-    job.status = "error";
-    job.progress = 0;
-    job.stage = "Failed";
-    job.error = error instanceof Error ? error.message : "Unknown error";
-    jobs.set(jobId, { ...job });
+    if (signal.aborted || isAbortError(error)) {
+      console.log(`[Job ${jobId}] Stopped after cancellation`);
+      return;
+    }
+    if (error instanceof SourceRejectedError) {
+      console.log(`[Limits] Rejected ${source.kind} source ${source.ref} (${error.code})`);
+      update({ status: "error", progress: 0, stage: "Not accepted", error: error.message, errorCode: error.code });
+      return;
+    }
+
+    const classified = classifyPrepareError(error, step);
+    console.error(`[Job ${jobId}] Failed during ${step} (${classified.code}):`, error);
+    update({
+      status: "error",
+      progress: 0,
+      stage: "Failed",
+      stageProgress: null,
+      etaSeconds: null,
+      error: classified.userMessage,
+      errorCode: classified.code,
+    });
+  } finally {
+    controllers.delete(jobId);
+  }
+}
+
+/**
+ * Prepare a cached song again from the source recorded in its meta.json, e.g.
+ * after the integrity check removed damaged stems. Returns false when a job is
+ * already running for it or its source is unknown.
+ */
+export function requeuePrepare(videoId: string, stems: 2 | 4): boolean {
+  if (findActiveJobForVideo(videoId)) return false;
+
+  const meta = readSongMeta(videoId);
+  const source: MediaSourceRef | null =
+    meta?.source && meta.sourceRef
+      ? { kind: meta.source, ref: meta.sourceRef }
+      : isValidVideoId(videoId)
+        ? { kind: "youtube", ref: videoId }
+        : null;
+  if (!source) return false;
+
+  const jobId = startJob(
+    videoId,
+    source,
+    { backend: meta?.separator, model: meta?.separatorModel, stems },
+    meta?.title,
+    meta?.channelTitle
+  );
+  console.log(`[Job ${jobId}] Re-preparing ${videoId} after cache repair`);
+  return true;
+}
+
+/**
+ * Load persisted jobs and re-queue the ones a previous process left mid-flight.
+ * Download and separation both short-circuit on cached artifacts, so a resumed
+ * job picks up from the last completed step.
+ */
+export async function resumeInterruptedJobs() {
+  const interrupted = await initJobStore();
+
+  for (const job of interrupted) {
+    if (job.attempts >= MAX_JOB_ATTEMPTS) {
+      console.warn(`[Job ${job.jobId}] Interrupted ${job.attempts} times, giving up`);
+      const interrupted = new PrepareError("INTERRUPTED", `Interrupted ${job.attempts} times`);
+      setJobState(job.jobId, {
+        status: "error",
+        progress: 0,
+        stage: "Failed",
+        error: interrupted.userMessage,
+        errorCode: interrupted.code,
+      });
+      continue;
+    }
+
+    console.log(`[Job ${job.jobId}] Resuming after restart (was ${job.status})`);
+    setJobState(job.jobId, { status: "pending", stage: "Resuming after server restart", partial: undefined });
+    processVideo(job.jobId);
   }
 }
 
@@ -1,9 +1,36 @@
 import { Router } from "express";
-import { searchYouTube, YouTubeVideo } from "../services/youtube.js";
+import { getCatalogEntry, preparedSongFields, queryCatalog } from "../services/catalog.js";
+import { catalogVideo, DEFAULT_SEARCH_PAGE_SIZE, searchYouTube, YouTubeVideo } from "../services/youtube.js";
+import { quotaStatus } from "../services/youtubeQuota.js";
 
 const router = Router();
 
-// GET /api/search?q={query}
+// Prepared songs matching the query that lead the first page.
+const INSTANT_PICKS_LIMIT = Number(process.env.INSTANT_PICKS_LIMIT || 5);
+
+// Any source counts: an upload that matches is just as singable as a YouTube video.
+function instantPicks(query: string): YouTubeVideo[] {
+  return queryCatalog({ q: query, sort: "lastPlayedAt", limit: INSTANT_PICKS_LIMIT }).items.map(catalogVideo);
+}
+
+// Display fields from the result; stem URLs and media facts when we already have the song prepared.
+function searchResult(video: YouTubeVideo) {
+  const entry = getCatalogEntry(video.videoId);
+  const display = {
+    videoId: video.videoId,
+    title: video.title,
+    thumbnail: video.thumbnail,
+    duration: video.duration,
+    channelTitle: video.channelTitle,
+    publishedAt: video.publishedAt,
+  };
+  return entry ? { ...preparedSongFields(entry), ...display, prepared: true } : { ...display, prepared: false };
+}
+
+// YouTube page tokens are short base64url-ish strings; anything else never came from us.
+const PAGE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// GET /api/search?q={query}&pageToken={token}&pageSize={1-50}
 router.get("/", async (req, res) => {
   const query = req.query.q as string;
 
@@ -11,18 +38,39 @@ router.get("/", async (req, res) => {
     return res.status(400).json({ error: "Query parameter 'q' is required" });
   }
 
+  const pageToken = typeof req.query.pageToken === "string" && req.query.pageToken ? req.query.pageToken : null;
+  if (pageToken && !PAGE_TOKEN_PATTERN.test(pageToken)) {
+    return res.status(400).json({ error: "Invalid pageToken" });
+  }
+  const requestedSize = Number(req.query.pageSize);
+  const pageSize = Number.isFinite(requestedSize) && requestedSize > 0 ? requestedSize : DEFAULT_SEARCH_PAGE_SIZE;
+
   try {
-    const results = await searchYouTube(query.trim());
+    const { results, nextPageToken, source, cachedAt } = await searchYouTube(query.trim(), { pageToken, pageSize });
+
+    // First page: instantly singable songs on top (picks, then prepared results), the rest in YouTube's ranked order.
+    // Later pages keep their order; prepared results there are only marked.
+    let ordered = results;
+    if (!pageToken) {
+      const picks = instantPicks(query.trim());
+      const pickIds = new Set(picks.map((video) => video.videoId));
+      const rest = results.filter((video) => !pickIds.has(video.videoId));
+      ordered = [
+        ...picks,
+        ...rest.filter((video) => getCatalogEntry(video.videoId)),
+        ...rest.filter((video) => !getCatalogEntry(video.videoId)),
+      ];
+    }
+
     res.json({
       query: query.trim(),
-      results: results.map((video: YouTubeVideo) => ({
-        videoId: video.videoId,
-        title: video.title,
-        thumbnail: video.thumbnail,
-        duration: video.duration,
-        channelTitle: video.channelTitle,
-        publishedAt: video.publishedAt,
-      })),
+      pageToken,
+      nextPageToken,
+      // "stale_cache"/"local" mean YouTube couldn't be asked (quota spent or API down).
+      source,
+      cachedAt: cachedAt ?? null,
+      // prepared: true results carry instrumentalUrl/vocalsUrl/stems/media and can be sung without a job.
+      results: ordered.map(searchResult),
     });
   } catch (error) {
     console.error("Search error:", error);
@@ -30,4 +78,9 @@ router.get("/", async (req, res) => {
   }
 });
 
+// GET /api/search/quota - YouTube Data API units spent today (Pacific time) against the daily budget
+router.get("/quota", (_req, res) => {
+  res.json(quotaStatus());
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import fs from "fs";
+
+/**
+ * Write via a temp file in the same directory and rename over the target, so a
+ * crash mid-write leaves the old file (or none) instead of a truncated one.
+ */
+export function writeFileAtomic(file: string, data: string | Buffer) {
+  const tmpPath = `${file}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, file);
+  } finally {
+    fs.rmSync(tmpPath, { force: true });
+  }
+}
+
+export function writeJsonAtomic(file: string, value: unknown) {
+  writeFileAtomic(file, JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,261 @@
+import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import { pipeline } from "stream/promises";
+
+import { writeJsonAtomic } from "./atomicFile.js";
+import { CACHE_DIR, findSourceAudio, isValidCacheId, resolveCacheDir } from "./cachePaths.js";
+import { indexSong } from "./catalog.js";
+import { findActiveJobForVideo } from "./jobStore.js";
+import { downloadLockKey, isKeyLocked, lyricsLockKey, separationLockKey } from "./locks.js";
+import { renditionFileName, STEM_NAMES, type RenditionFormat, type StemName } from "./renditions.js";
+import { BAND_STEMS } from "./separator.js";
+
+// Partial stems outlive their job briefly for players still streaming them.
+const PARTIAL_STEM_MAX_AGE_MS = Number(process.env.PARTIAL_STEM_MAX_AGE_MS || 60 * 60 * 1000);
+
+const MANIFEST_FILE = "manifest.json";
+const JSON_FILES = ["meta.json", "lyrics.json", MANIFEST_FILE];
+const FORMATS: readonly RenditionFormat[] = ["wav", "opus", "aac"];
+
+// Work files of interrupted steps: .part downloads/encodes, atomic-write temps, yt-dlp fragments, ffmpeg partial mixes.
+const LEFTOVER_FILE_RE = /(\.part|\.part\.wav|\.tmp|\.ytdl)$/;
+const PARTIAL_STEM_RE = /^(instrumental|vocals)\.partial\d+\.wav$/;
+
+type ManifestFile = { size: number; mtimeMs: number; sha256: string };
+
+/**
+ * cache/<videoId>/manifest.json: size, mtime and checksum of the audio
+ * artifacts as they were when the prepare job finished.
+ */
+type Manifest = { version: 1; createdAt: string; files: Record<string, ManifestFile> };
+
+export type IntegrityIssueKind = "TRUNCATED" | "CORRUPT" | "MISSING" | "ORPHANED" | "INVALID_JSON";
+
+export type IntegrityIssue = {
+  kind: IntegrityIssueKind;
+  // Relative to the song's cache dir; directories end with "/".
+  file: string;
+  detail: string;
+  repaired: boolean;
+};
+
+export type EntryReport = {
+  videoId: string;
+  // Songs with an active job are skipped: their work files are expected.
+  inUse: boolean;
+  issues: IntegrityIssue[];
+  // Whether a prepare job was queued to rebuild removed stems or renditions.
+  requeued: boolean;
+};
+
+export type VerifyOptions = {
+  // Also compare checksums; otherwise only sizes and WAV headers are checked.
+  deep?: boolean;
+  repair?: boolean;
+  // Called after damaged stems/renditions were removed; returns whether a job was queued.
+  requeue?: (videoId: string, stems: 2 | 4) => boolean;
+};
+
+/** Source audio plus every stem in every format that exists in the dir. */
+function audioArtifacts(videoDir: string): string[] {
+  const names = STEM_NAMES.flatMap((stem) => FORMATS.map((format) => renditionFileName(stem, format)));
+  const source = findSourceAudio(videoDir);
+  if (source) names.unshift(path.basename(source));
+  return names.filter((name) => fs.existsSync(path.join(videoDir, name)));
+}
+
+export async function sha256File(file: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(fs.createReadStream(file), hash);
+  return hash.digest("hex");
+}
+
+function readManifest(videoDir: string): Manifest | null {
+  const file = path.join(videoDir, MANIFEST_FILE);
+  if (!fs.existsSync(file)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf-8")) as Manifest;
+    return parsed && typeof parsed.files === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Record the current audio artifacts; called once a prepare job has produced everything. */
+export async function writeManifest(videoId: string): Promise<void> {
+  const videoDir = resolveCacheDir(videoId);
+  const files: Record<string, ManifestFile> = {};
+  for (const name of audioArtifacts(videoDir)) {
+    const file = path.join(videoDir, name);
+    const { size, mtimeMs } = fs.statSync(file);
+    files[name] = { size, mtimeMs, sha256: await sha256File(file) };
+  }
+  writeJsonAtomic(path.join(videoDir, MANIFEST_FILE), { version: 1, createdAt: new Date().toISOString(), files });
+}
+
+function forgetInManifest(videoDir: string, names: string[]) {
+  const manifest = readManifest(videoDir);
+  if (!manifest || !names.some((name) => name in manifest.files)) return;
+  for (const name of names) delete manifest.files[name];
+  writeJsonAtomic(path.join(videoDir, MANIFEST_FILE), manifest);
+}
+
+/**
+ * What is wrong with a WAV file's header, or null if nothing. RIFF stores the
+ * length of everything after its first 8 bytes; a shorter file was cut off.
+ */
+export function checkWavHeader(file: string): string | null {
+  const size = fs.statSync(file).size;
+  if (size < 44) return `${size} bytes is smaller than a WAV header`;
+
+  const header = Buffer.alloc(12);
+  const fd = fs.openSync(file, "r");
+  try {
+    fs.readSync(fd, header, 0, 12, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (header.toString("ascii", 0, 4) !== "RIFF" || header.toString("ascii", 8, 12) !== "WAVE") {
+    return "not a WAV file";
+  }
+  const riffSize = header.readUInt32LE(4);
+  // Streamed WAVs leave the size unset (0 or 0xFFFFFFFF); nothing to compare against.
+  if (riffSize === 0 || riffSize === 0xffffffff) return null;
+  return size < riffSize + 8 ? `${size} of ${riffSize + 8} bytes` : null;
+}
+
+async function checkEntry(videoId: string, deep: boolean): Promise<IntegrityIssue[]> {
+  const videoDir = resolveCacheDir(videoId);
+  const issues: IntegrityIssue[] = [];
+  const issue = (kind: IntegrityIssueKind, file: string, detail: string) =>
+    issues.push({ kind, file, detail, repaired: false });
+
+  for (const d of fs.readdirSync(videoDir, { withFileTypes: true })) {
+    // Every artifact is a plain file; directories are Demucs/progressive/download work dirs.
+    if (d.isDirectory()) {
+      issue("ORPHANED", `${d.name}/`, "work directory of an interrupted step");
+    } else if (LEFTOVER_FILE_RE.test(d.name)) {
+      issue("ORPHANED", d.name, "unfinished write");
+    } else if (PARTIAL_STEM_RE.test(d.name)) {
+      const age = Date.now() - fs.statSync(path.join(videoDir, d.name)).mtimeMs;
+      if (age > PARTIAL_STEM_MAX_AGE_MS) issue("ORPHANED", d.name, "partial stem of a finished job");
+    }
+  }
+
+  for (const name of JSON_FILES) {
+    const file = path.join(videoDir, name);
+    if (!fs.existsSync(file)) continue;
+    try {
+      JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (error) {
+      issue("INVALID_JSON", name, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const manifest = readManifest(videoDir);
+  const tracked = manifest?.files ?? {};
+  for (const name of Object.keys(tracked)) {
+    if (!fs.existsSync(path.join(videoDir, name))) issue("MISSING", name, "listed in manifest.json");
+  }
+
+  for (const name of audioArtifacts(videoDir)) {
+    const file = path.join(videoDir, name);
+    const { size, mtimeMs } = fs.statSync(file);
+    const expected = tracked[name];
+
+    // A file rewritten since the manifest (e.g. a four-stem upgrade) can only be judged by its header.
+    if (expected && expected.mtimeMs === mtimeMs) {
+      if (size !== expected.size) {
+        issue("TRUNCATED", name, `${size} bytes, manifest has ${expected.size}`);
+        continue;
+      }
+      if (deep && (await sha256File(file)) !== expected.sha256) {
+        issue("CORRUPT", name, "checksum differs from manifest.json");
+        continue;
+      }
+    }
+
+    if (name.endsWith(".wav")) {
+      const problem = checkWavHeader(file);
+      if (problem) issue(problem === "not a WAV file" ? "CORRUPT" : "TRUNCATED", name, problem);
+    }
+  }
+
+  return issues;
+}
+
+// What a damaged artifact takes with it so the next prepare rebuilds it.
+function removalsFor(videoDir: string, issue: IntegrityIssue): { remove: string[]; rebuild: boolean } {
+  if (issue.kind === "ORPHANED" || issue.kind === "INVALID_JSON") return { remove: [issue.file], rebuild: false };
+
+  const stem = STEM_NAMES.find((s) => issue.file.startsWith(`${s}.`));
+  // Damaged source audio is fetched again by the next prepare; the stems made from it are fine.
+  if (!stem) return { remove: [issue.file], rebuild: false };
+  if (!issue.file.endsWith(".wav")) return { remove: [issue.file], rebuild: true };
+
+  // Without both halves of the pair the song counts as unseparated and Demucs runs again.
+  const stems = new Set<StemName>(["vocals", "instrumental", stem]);
+  const remove = [...stems].flatMap((s) => FORMATS.map((format) => renditionFileName(s, format)));
+  return { remove: remove.filter((name) => fs.existsSync(path.join(videoDir, name))), rebuild: true };
+}
+
+async function repairEntry(videoId: string, issues: IntegrityIssue[], options: VerifyOptions): Promise<boolean> {
+  const videoDir = resolveCacheDir(videoId);
+  const hadBands = BAND_STEMS.every((stem) => fs.existsSync(path.join(videoDir, `${stem}.wav`)));
+  const removed: string[] = [];
+  let rebuild = false;
+
+  for (const issue of issues) {
+    const plan = removalsFor(videoDir, issue);
+    for (const name of plan.remove) {
+      fs.rmSync(path.join(videoDir, name.replace(/\/$/, "")), { recursive: true, force: true });
+      removed.push(name);
+    }
+    rebuild ||= plan.rebuild;
+    issue.repaired = true;
+  }
+
+  forgetInManifest(videoDir, removed);
+  indexSong(videoId);
+  console.log(`[Integrity] ${videoId}: removed ${removed.join(", ")}`);
+  return rebuild && Boolean(options.requeue?.(videoId, hadBands ? 4 : 2));
+}
+
+// A job, or work outside one (lyrics downloads, Whisper), may be writing into the dir right now.
+function isBusy(videoId: string): boolean {
+  return (
+    Boolean(findActiveJobForVideo(videoId)) ||
+    [downloadLockKey(videoId), separationLockKey(videoId), lyricsLockKey(videoId)].some(isKeyLocked)
+  );
+}
+
+/**
+ * Check every song dir for truncated, corrupt or leftover files and, with
+ * `repair`, remove them (and whatever depends on them) and queue a prepare job
+ * to rebuild lost stems. Songs something is working on are left alone.
+ */
+export async function verifyCache(options: VerifyOptions = {}): Promise<EntryReport[]> {
+  if (!fs.existsSync(CACHE_DIR)) return [];
+
+  const videoIds = fs
+    .readdirSync(CACHE_DIR, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && isValidCacheId(d.name))
+    .map((d) => d.name);
+
+  const reports: EntryReport[] = [];
+  for (const videoId of videoIds) {
+    if (isBusy(videoId)) {
+      reports.push({ videoId, inUse: true, issues: [], requeued: false });
+      continue;
+    }
+
+    const issues = await checkEntry(videoId, Boolean(options.deep));
+    const requeued = options.repair && issues.length > 0 ? await repairEntry(videoId, issues, options) : false;
+    reports.push({ videoId, inUse: false, issues, requeued });
+  }
+
+  const damaged = reports.filter((report) => report.issues.length > 0).length;
+  console.log(`[Integrity] Checked ${reports.length} song(s), ${damaged} with problems`);
+  return reports;
+}
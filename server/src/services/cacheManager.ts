@@ -0,0 +1,151 @@
+import path from "path";
+import fs from "fs";
+
+import { CACHE_DIR, isValidCacheId, resolveCacheDir } from "./cachePaths.js";
+import { indexSong, removeFromCatalog } from "./catalog.js";
+import { findActiveJobForVideo } from "./jobStore.js";
+import { readSongMeta, updateSongMeta } from "./songMeta.js";
+
+// 0 disables eviction; songs are then only removed by hand.
+const CACHE_QUOTA_MB = Number(process.env.CACHE_QUOTA_MB || 20 * 1024);
+// Every Range request of a song marks it played; meta.json only needs rewriting now and then.
+const PLAYED_WRITE_INTERVAL_MS = Number(process.env.CACHE_PLAYED_WRITE_INTERVAL_MS || 5 * 60 * 1000);
+
+export type CacheEntry = {
+  videoId: string;
+  title: string | null;
+  sizeBytes: number;
+  preparedAt: string | null;
+  lastPlayedAt: string | null;
+  // What eviction orders by: last played, else prepared, else the dir's mtime.
+  lastUsedAt: string;
+  inUse: boolean;
+};
+
+export type CacheErrorCode = "NOT_FOUND" | "IN_USE";
+
+export class CacheError extends Error {
+  constructor(
+    readonly code: CacheErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "CacheError";
+  }
+}
+
+const lastPlayedWrites = new Map<string, number>();
+
+export function cacheQuotaBytes(): number | null {
+  return CACHE_QUOTA_MB > 0 ? CACHE_QUOTA_MB * 1024 * 1024 : null;
+}
+
+function directorySize(dir: string): number {
+  let total = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    try {
+      if (entry.isDirectory()) total += directorySize(full);
+      else if (entry.isFile()) total += fs.statSync(full).size;
+    } catch {
+      // Removed while we were walking (e.g. a .part file being renamed)
+    }
+  }
+  return total;
+}
+
+function cacheEntry(videoId: string): CacheEntry | null {
+  const videoDir = resolveCacheDir(videoId);
+  if (!fs.existsSync(videoDir)) return null;
+
+  const meta = readSongMeta(videoId);
+  const lastPlayedAt = meta?.lastPlayedAt ?? null;
+  const preparedAt = meta?.preparedAt ?? null;
+  return {
+    videoId,
+    title: meta?.title ?? null,
+    sizeBytes: directorySize(videoDir),
+    preparedAt,
+    lastPlayedAt,
+    lastUsedAt: lastPlayedAt ?? preparedAt ?? fs.statSync(videoDir).mtime.toISOString(),
+    inUse: Boolean(findActiveJobForVideo(videoId)),
+  };
+}
+
+/** Every song dir in cache/, least recently used first. */
+export function listCacheEntries(): CacheEntry[] {
+  if (!fs.existsSync(CACHE_DIR)) return [];
+
+  return fs
+    .readdirSync(CACHE_DIR, { withFileTypes: true })
+    .filter((d) => d.isDirectory() && isValidCacheId(d.name))
+    .map((d) => cacheEntry(d.name))
+    .filter((entry): entry is CacheEntry => entry !== null)
+    .sort((a, b) => (a.lastUsedAt < b.lastUsedAt ? -1 : a.lastUsedAt > b.lastUsedAt ? 1 : 0));
+}
+
+/** Record that a song is being sung. Cheap to call per request: writes are throttled per song. */
+export function markPlayed(videoId: string) {
+  const now = Date.now();
+  if (now - (lastPlayedWrites.get(videoId) ?? 0) < PLAYED_WRITE_INTERVAL_MS) return;
+  lastPlayedWrites.set(videoId, now);
+
+  try {
+    updateSongMeta(videoId, { lastPlayedAt: new Date(now).toISOString() });
+    indexSong(videoId);
+  } catch (e) {
+    console.warn(`[Cache] Failed to mark ${videoId} played:`, e instanceof Error ? e.message : e);
+  }
+}
+
+/**
+ * Delete a song's cache dir. Refuses while a job is preparing it, since the
+ * job would go on writing into (or reading from) a directory that is gone.
+ */
+export function removeCacheEntry(videoId: string): CacheEntry {
+  const entry = cacheEntry(videoId);
+  if (!entry) throw new CacheError("NOT_FOUND", `Nothing cached for ${videoId}`);
+  if (entry.inUse) throw new CacheError("IN_USE", `${videoId} is being prepared`);
+
+  fs.rmSync(resolveCacheDir(videoId), { recursive: true, force: true });
+  removeFromCatalog(videoId);
+  lastPlayedWrites.delete(videoId);
+  return entry;
+}
+
+/**
+ * Evict least recently sung songs until the cache fits the quota. Songs with
+ * an active job are never evicted, nor is `keep` (the song that just finished).
+ */
+export function enforceCacheQuota(keep?: string): CacheEntry[] {
+  const quota = cacheQuotaBytes();
+  if (quota === null) return [];
+
+  const entries = listCacheEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const evicted: CacheEntry[] = [];
+
+  for (const entry of entries) {
+    if (total <= quota) break;
+    if (entry.inUse || entry.videoId === keep) continue;
+
+    try {
+      removeCacheEntry(entry.videoId);
+      total -= entry.sizeBytes;
+      evicted.push(entry);
+    } catch (e) {
+      // A job may have claimed it since the listing
+      console.warn(`[Cache] Could not evict ${entry.videoId}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  if (evicted.length > 0) {
+    const freedMb = evicted.reduce((sum, entry) => sum + entry.sizeBytes, 0) / (1024 * 1024);
+    console.log(`[Cache] Evicted ${evicted.length} song(s), ${freedMb.toFixed(1)} MB freed`);
+  }
+  if (total > quota) {
+    const overMb = (total - quota) / (1024 * 1024);
+    console.warn(`[Cache] Still ${overMb.toFixed(1)} MB over quota; the rest are in use or just prepared`);
+  }
+  return evicted;
+}
@@ -0,0 +1,92 @@
+import { createHash, randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+
+const SERVER_ROOT = process.cwd(); // when running from ~/singsync/server
+export const CACHE_DIR = path.resolve(SERVER_ROOT, "cache");
+// Server state (job store, catalog, ...) lives here rather than in cache/, which is served publicly at /cache.
+export const STATE_DIR = path.resolve(SERVER_ROOT, process.env.STATE_DIR || "data");
+
+// YouTube video ids are exactly 11 characters of base64url.
+const YOUTUBE_ID_RE = /^[A-Za-z0-9_-]{11}$/;
+// Non-YouTube sources get a generated id that can never collide with a YouTube one:
+// upl_ (uploaded file), url_ (direct HTTP URL), lib_ (local library file).
+const GENERATED_ID_RE = /^(upl|url|lib)_[0-9a-f]{16}$/;
+
+export class InvalidVideoIdError extends Error {
+  constructor(readonly videoId: string) {
+    super(`Invalid videoId: ${JSON.stringify(videoId).slice(0, 64)}`);
+    this.name = "InvalidVideoIdError";
+  }
+}
+
+export function isValidVideoId(videoId: unknown): videoId is string {
+  return typeof videoId === "string" && YOUTUBE_ID_RE.test(videoId);
+}
+
+/** Any id that owns a cache directory: a YouTube videoId or a generated one. */
+export function isValidCacheId(videoId: unknown): videoId is string {
+  return isValidVideoId(videoId) || (typeof videoId === "string" && GENERATED_ID_RE.test(videoId));
+}
+
+export function newUploadId(): string {
+  return `upl_${randomBytes(8).toString("hex")}`;
+}
+
+/** Stable id for a URL or library path, so preparing the same reference twice reuses its cache dir. */
+export function hashedCacheId(prefix: "url" | "lib", key: string): string {
+  return `${prefix}_${createHash("sha256").update(key).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Absolute cache directory for a video. Throws for anything that isn't a
+ * well-formed id, and double-checks the result stays a direct child of cache/.
+ */
+export function resolveCacheDir(videoId: string): string {
+  if (!isValidCacheId(videoId)) throw new InvalidVideoIdError(videoId);
+
+  const dir = path.resolve(CACHE_DIR, videoId);
+  if (path.dirname(dir) !== CACHE_DIR) throw new InvalidVideoIdError(videoId);
+  return dir;
+}
+
+/**
+ * The source audio in a cache dir: source.m4a for YouTube downloads, source.<ext>
+ * for every other provider. Ignores the Whisper transcript (source.json) and partial downloads.
+ */
+export function findSourceAudio(videoDir: string): string | null {
+  if (!fs.existsSync(videoDir)) return null;
+  const name = fs
+    .readdirSync(videoDir)
+    .find((n) => n.startsWith("source.") && n !== "source.json" && !/\.(part|ytdl|tmp)$/.test(n));
+  return name ? path.join(videoDir, name) : null;
+}
+
+/**
+ * When the stem pair was last written (newest mtime of instrumental.wav and vocals.wav), or 0
+ * if either is missing. Measurements stored in meta.json record it to notice re-separation.
+ */
+export function stemsWrittenAt(videoDir: string): number {
+  try {
+    const times = ["instrumental.wav", "vocals.wav"].map((name) => fs.statSync(path.join(videoDir, name)).mtimeMs);
+    return Math.max(...times);
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Path of a state file in STATE_DIR, creating the directory. A copy left in cache/ by an
+ * older version is moved over on first use, so it is kept but no longer served.
+ */
+export function statePath(name: string): string {
+  fs.mkdirSync(STATE_DIR, { recursive: true });
+  const file = path.join(STATE_DIR, name);
+  const legacy = path.join(CACHE_DIR, name);
+  if (fs.existsSync(legacy) && !fs.existsSync(file)) {
+    // Copy + remove rather than rename: data/ may be on another filesystem than cache/.
+    fs.copyFileSync(legacy, file);
+    fs.rmSync(legacy);
+  }
+  return file;
+}
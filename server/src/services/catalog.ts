@@ -0,0 +1,251 @@
+import path from "path";
+import fs from "fs";
+
+import { CACHE_DIR, isValidCacheId, resolveCacheDir, statePath } from "./cachePaths.js";
+import type { LyricsResponse } from "./lyrics.js";
+import type { MediaSourceKind } from "./mediaSources.js";
+import { stemMediaUrls, type StemMedia, type StemName } from "./renditions.js";
+import { bandStemUrls, type BandStem } from "./separator.js";
+import { formatDuration, readSongMeta, type SongMeta } from "./songMeta.js";
+import type { StemQualityFlag } from "./stemQuality.js";
+
+const CATALOG_PATH = process.env.CATALOG_PATH || statePath("catalog.json");
+
+/**
+ * Everything the song lists need about a prepared song, captured from its
+ * cache dir when it changes, so listing never has to touch the disk.
+ */
+export type CatalogEntry = {
+  videoId: string;
+  title: string;
+  channelTitle: string;
+  // mtime of instrumental.wav: when the stems were last written.
+  preparedAt: string;
+  meta: SongMeta;
+  stems: Record<BandStem, string> | null;
+  media: Partial<Record<StemName, StemMedia>>;
+  lyrics: Pick<LyricsResponse, "source" | "mode"> | null;
+};
+
+/** What the song lists and search send for a prepared song, ready to sing without a job. */
+export type PreparedSongFields = {
+  instrumentalUrl: string;
+  vocalsUrl: string;
+  preparedAt: string;
+  duration: string | null;
+  durationSeconds: number | null;
+  artist: string | null;
+  track: string | null;
+  thumbnail: string | null;
+  // Playback gain from loudness analysis; null for songs prepared before it existed or without ffmpeg.
+  gainDb: number | null;
+  // drums/bass/other URLs when the song was separated in four stems.
+  stems: Record<BandStem, string> | null;
+  // Streaming URLs per stem: WAV always, Opus/AAC once encoded.
+  media: Partial<Record<StemName, StemMedia>>;
+  // Stem quality verdict (e.g. SOURCE_INSTRUMENTAL); null for songs that were never checked.
+  quality: { flags: StemQualityFlag[] } | null;
+};
+
+export type CatalogSort = "preparedAt" | "lastPlayedAt" | "title" | "duration";
+export const CATALOG_SORTS: readonly CatalogSort[] = ["preparedAt", "lastPlayedAt", "title", "duration"];
+
+export type CatalogQuery = {
+  // Case-insensitive match on title, channel, artist and track: every word has to appear in one of them.
+  q?: string;
+  source?: MediaSourceKind;
+  // Only songs with (true) or without (false) usable lyrics.
+  hasLyrics?: boolean;
+  sort?: CatalogSort;
+  order?: "asc" | "desc";
+  offset?: number;
+  limit?: number;
+};
+
+const entries = new Map<string, CatalogEntry>();
+let loaded = false;
+// Serialize writes so an older snapshot never lands after a newer one.
+let writeChain: Promise<void> = Promise.resolve();
+
+function persist(): Promise<void> {
+  const payload = JSON.stringify({ version: 1, songs: [...entries.values()] }, null, 2);
+  writeChain = writeChain
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(CATALOG_PATH), { recursive: true });
+      const tmpPath = `${CATALOG_PATH}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, payload, "utf-8");
+      await fs.promises.rename(tmpPath, CATALOG_PATH);
+    })
+    .catch((error) => {
+      console.warn("[Catalog] Failed to persist catalog:", error);
+    });
+  return writeChain;
+}
+
+function readLyricsSummary(videoDir: string): CatalogEntry["lyrics"] {
+  const file = path.join(videoDir, "lyrics.json");
+  if (!fs.existsSync(file)) return null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf-8")) as Partial<LyricsResponse>;
+    if (typeof parsed.source !== "string") return null;
+    return { source: parsed.source, mode: parsed.mode === "plain" ? "plain" : "timed" };
+  } catch {
+    return null;
+  }
+}
+
+// Null when the dir doesn't hold a complete vocals/instrumental pair (yet).
+function readEntry(videoId: string): CatalogEntry | null {
+  const videoDir = resolveCacheDir(videoId);
+  const instrumental = path.join(videoDir, "instrumental.wav");
+  if (!fs.existsSync(instrumental) || !fs.existsSync(path.join(videoDir, "vocals.wav"))) return null;
+
+  const meta = readSongMeta(videoId) ?? { videoId };
+  return {
+    videoId,
+    title: meta.title ?? videoId,
+    channelTitle: meta.channelTitle ?? "Unknown",
+    preparedAt: fs.statSync(instrumental).mtime.toISOString(),
+    meta,
+    stems: bandStemUrls(videoId),
+    media: stemMediaUrls(videoId),
+    lyrics: readLyricsSummary(videoDir),
+  };
+}
+
+function scanCacheDir(): number {
+  entries.clear();
+  if (fs.existsSync(CACHE_DIR)) {
+    for (const d of fs.readdirSync(CACHE_DIR, { withFileTypes: true })) {
+      if (!d.isDirectory() || !isValidCacheId(d.name)) continue;
+      const entry = readEntry(d.name);
+      if (entry) entries.set(entry.videoId, entry);
+    }
+  }
+  loaded = true;
+  return entries.size;
+}
+
+/** Re-scan every cache dir and replace the persisted catalog with the result. */
+export async function rebuildCatalog(): Promise<number> {
+  const count = scanCacheDir();
+  await persist();
+  console.log(`[Catalog] Rebuilt from disk: ${count} song(s)`);
+  return count;
+}
+
+/** Load the persisted catalog; caches from before it existed are scanned once and saved. */
+export async function loadCatalog(): Promise<void> {
+  if (!fs.existsSync(CATALOG_PATH)) {
+    await rebuildCatalog();
+    return;
+  }
+
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(CATALOG_PATH, "utf-8")) as { songs?: CatalogEntry[] };
+    entries.clear();
+    for (const song of Array.isArray(parsed.songs) ? parsed.songs : []) {
+      if (song && isValidCacheId(song.videoId) && song.meta) entries.set(song.videoId, song);
+    }
+    loaded = true;
+    console.log(`[Catalog] Loaded ${entries.size} song(s)`);
+  } catch (error) {
+    console.warn(`[Catalog] Ignoring unreadable catalog at ${CATALOG_PATH}, rebuilding:`, error);
+    await rebuildCatalog();
+  }
+}
+
+/**
+ * Refresh one song from its cache dir: added or updated when it has stems,
+ * dropped when it doesn't. Call after anything that changes the dir.
+ */
+export function indexSong(videoId: string): CatalogEntry | null {
+  if (!loaded) return null;
+
+  const entry = readEntry(videoId);
+  if (entry) entries.set(videoId, entry);
+  else if (!entries.delete(videoId)) return null;
+
+  void persist();
+  return entry;
+}
+
+export function removeFromCatalog(videoId: string) {
+  if (entries.delete(videoId)) void persist();
+}
+
+export function getCatalogEntry(videoId: string): CatalogEntry | undefined {
+  return entries.get(videoId);
+}
+
+// Stem URLs plus real media facts from meta.json, with nulls when a source didn't provide them.
+export function preparedSongFields({ videoId, preparedAt, meta, stems, media }: CatalogEntry): PreparedSongFields {
+  return {
+    instrumentalUrl: `/cache/${videoId}/instrumental.wav`,
+    vocalsUrl: `/cache/${videoId}/vocals.wav`,
+    preparedAt,
+    duration: meta.durationSeconds ? formatDuration(meta.durationSeconds) : null,
+    durationSeconds: meta.durationSeconds ?? null,
+    artist: meta.artist ?? null,
+    track: meta.track ?? null,
+    thumbnail: meta.thumbnail ?? null,
+    gainDb: meta.loudness?.gainDb ?? null,
+    stems,
+    media,
+    quality: meta.quality ? { flags: meta.quality.flags } : null,
+  };
+}
+
+function matchesQuery(entry: CatalogEntry, query: CatalogQuery): boolean {
+  if (query.source && (entry.meta.source ?? "youtube") !== query.source) return false;
+  if (query.hasLyrics !== undefined) {
+    const hasLyrics = Boolean(entry.lyrics && entry.lyrics.source !== "none");
+    if (hasLyrics !== query.hasLyrics) return false;
+  }
+
+  // Words rather than the whole phrase, so "beatles let it be" finds "Let It Be" by the Beatles.
+  const words = query.q?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  if (!words.length) return true;
+  const { title, channelTitle, meta } = entry;
+  const fields = [title, channelTitle, meta.artist, meta.track].map((field) => field?.toLowerCase() ?? "");
+  return words.every((word) => fields.some((field) => field.includes(word)));
+}
+
+// Ascending order; songs missing the field are put last by hasSortField before this runs.
+function compareBy(sort: CatalogSort): (a: CatalogEntry, b: CatalogEntry) => number {
+  switch (sort) {
+    case "title":
+      return (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: "base" });
+    case "duration":
+      return (a, b) => (a.meta.durationSeconds ?? 0) - (b.meta.durationSeconds ?? 0);
+    case "lastPlayedAt":
+      return (a, b) => (a.meta.lastPlayedAt ?? "").localeCompare(b.meta.lastPlayedAt ?? "");
+    case "preparedAt":
+      return (a, b) => a.preparedAt.localeCompare(b.preparedAt);
+  }
+}
+
+function hasSortField(entry: CatalogEntry, sort: CatalogSort): boolean {
+  if (sort === "duration") return Boolean(entry.meta.durationSeconds);
+  if (sort === "lastPlayedAt") return Boolean(entry.meta.lastPlayedAt);
+  return true;
+}
+
+/** Filter, sort and page the catalog. Newest first unless asked otherwise. */
+export function queryCatalog(query: CatalogQuery = {}): { total: number; items: CatalogEntry[] } {
+  const sort = query.sort ?? "preparedAt";
+  const direction = query.order === "asc" ? 1 : -1;
+  const compare = compareBy(sort);
+
+  const matched = [...entries.values()].filter((entry) => matchesQuery(entry, query));
+  matched.sort((a, b) => {
+    const aHas = hasSortField(a, sort);
+    const bHas = hasSortField(b, sort);
+    if (aHas !== bHas) return aHas ? -1 : 1;
+    return direction * compare(a, b) || a.videoId.localeCompare(b.videoId);
+  });
+
+  const offset = Math.max(0, query.offset ?? 0);
+  const end = query.limit === undefined ? undefined : offset + Math.max(0, query.limit);
+  return { total: matched.length, items: matched.slice(offset, end) };
+}
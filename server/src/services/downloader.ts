@@ -1,94 +1,88 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import path from "path";
 import fs from "fs";
 
-const execAsync = promisify(exec);
-
-// We want all cache to live under the server folder consistently
-const SERVER_ROOT = process.cwd(); // when running from ~/singsync/server
-const CACHE_DIR = path.join(SERVER_ROOT, "cache");
-
-// Prefer explicitly configured tool paths, otherwise try common locations.
-// 1) server/.venv/bin
-// 2) repo-root/.venv/bin (one level up from server)
-const YT_DLP_PATH =
-  process.env.YT_DLP_PATH ||
-  (fs.existsSync(path.join(SERVER_ROOT, ".venv", "bin", "yt-dlp"))
-    ? path.join(SERVER_ROOT, ".venv", "bin", "yt-dlp")
-    : path.join(SERVER_ROOT, "..", ".venv", "bin", "yt-dlp"));
+import { CACHE_DIR, resolveCacheDir } from "./cachePaths.js";
+import { downloadLockKey, withKeyedLock } from "./locks.js";
+import { getMediaSource, type FetchSourceOptions, type MediaSourceRef } from "./mediaSources.js";
+import { isAbortError } from "./processRunner.js";
+import { PrepareError } from "./prepareErrors.js";
+import { formatDuration, updateSongMeta } from "./songMeta.js";
 
 if (!fs.existsSync(CACHE_DIR)) {
   fs.mkdirSync(CACHE_DIR, { recursive: true });
 }
 
+export type DownloadOptions = FetchSourceOptions;
+
 export interface DownloadResult {
   videoId: string;
   audioPath: string;
   title: string;
   duration: string;
+  durationSeconds: number | null;
 }
 
 /**
- * Download audio from YouTube using yt-dlp
+ * Fetch the source audio for a cache entry through its media source provider
+ * (yt-dlp for YouTube, HTTP, library copy, or an existing upload).
+ * Serialized per videoId so concurrent callers never write the same file.
  */
-export async function downloadAudio(videoId: string, title: string): Promise<DownloadResult> {
-  const videoDir = path.join(CACHE_DIR, videoId);
+export async function downloadAudio(
+  videoId: string,
+  title: string,
+  source: MediaSourceRef,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
+  return withKeyedLock(downloadLockKey(videoId), () => downloadAudioUnlocked(videoId, title, source, options));
+}
+
+async function downloadAudioUnlocked(
+  videoId: string,
+  title: string,
+  source: MediaSourceRef,
+  options: DownloadOptions
+): Promise<DownloadResult> {
+  const videoDir = resolveCacheDir(videoId);
 
   if (!fs.existsSync(videoDir)) {
     fs.mkdirSync(videoDir, { recursive: true });
   }
 
-  const outputPath = path.join(videoDir, "source.m4a");
-
-  // Check cache
-  if (fs.existsSync(outputPath)) {
-    console.log(`[Cache Hit] ${videoId} already downloaded`);
-    return {
-      videoId,
-      audioPath: outputPath,
-      title,
-      duration: "0:00",
-    };
-  }
-
-  // Validate yt-dlp path early
-  if (!fs.existsSync(YT_DLP_PATH)) {
-    throw new Error(
-      `yt-dlp not found. Expected at: ${YT_DLP_PATH}. ` +
-        `Fix by creating venv at server/.venv or set YT_DLP_PATH in server/.env`
-    );
-  }
-
-  const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-  console.log(`[Download] Starting: ${videoUrl}`);
-
   try {
-    const command = `"${YT_DLP_PATH}" -f "bestaudio[ext=m4a]/bestaudio" --extract-audio --audio-format m4a --audio-quality 128K -o "${outputPath}" "${videoUrl}"`;
-    await execAsync(command, { timeout: 120000 });
-    console.log(`[Download] Complete: ${outputPath}`);
+    const { audioPath, metadata } = await getMediaSource(source.kind).fetch(videoId, source.ref, videoDir, options);
+    console.log(`[Download] Complete: ${audioPath}`);
+
+    // Persist right away so lyrics lookups made before separation finishes can use it too.
+    const meta = updateSongMeta(videoId, { source: source.kind, sourceRef: source.ref, ...metadata });
+    const durationSeconds = meta.durationSeconds ?? null;
 
     return {
       videoId,
-      audioPath: outputPath,
+      audioPath,
       title,
-      duration: "0:00",
+      duration: formatDuration(durationSeconds),
+      durationSeconds,
     };
   } catch (error) {
+    if (isAbortError(error)) {
+      console.log(`[Download] Cancelled: ${videoId}`);
+      throw error;
+    }
+    if (error instanceof PrepareError) throw error;
     console.error("[Download] Failed:", error);
-    throw new Error(`Failed to download audio: ${error}`);
+    throw new Error(`Failed to download audio: ${error}`, { cause: error });
   }
 }
 
 export function isCached(videoId: string): boolean {
-  const videoDir = path.join(CACHE_DIR, videoId);
+  const videoDir = resolveCacheDir(videoId);
   const instrumentalPath = path.join(videoDir, "instrumental.wav");
   const vocalPath = path.join(videoDir, "vocals.wav");
   return fs.existsSync(instrumentalPath) && fs.existsSync(vocalPath);
 }
 
 export function getCachedPaths(videoId: string): { instrumental: string; vocals: string } | null {
-  const videoDir = path.join(CACHE_DIR, videoId);
+  const videoDir = resolveCacheDir(videoId);
   const instrumental = path.join(videoDir, "instrumental.wav");
   const vocals = path.join(videoDir, "vocals.wav");
   if (fs.existsSync(instrumental) && fs.existsSync(vocals)) return { instrumental, vocals };
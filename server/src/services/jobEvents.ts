@@ -0,0 +1,17 @@
+import { EventEmitter } from "node:events";
+
+export type JobProgressListener = (jobId: string) => void;
+
+// Decouples the prepare pipeline from the Socket.IO server that fans updates out to clients.
+const emitter = new EventEmitter();
+
+export function emitJobProgress(jobId: string): void {
+  emitter.emit("progress", jobId);
+}
+
+export function onJobProgress(listener: JobProgressListener): () => void {
+  emitter.on("progress", listener);
+  return () => {
+    emitter.off("progress", listener);
+  };
+}
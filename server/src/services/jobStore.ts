@@ -0,0 +1,243 @@
+import path from "path";
+import fs from "fs";
+
+import { statePath } from "./cachePaths.js";
+import type { MediaSourceRef } from "./mediaSources.js";
+import type { PrepareErrorCode } from "./prepareErrors.js";
+import type { SeparatorChoice } from "./separator.js";
+import type { SourceRejectionCode } from "./sourceLimits.js";
+
+// "file" (default) persists jobs to disk so a restart can resume them; "memory" keeps the old behaviour.
+const JOB_STORE_BACKEND = (process.env.JOB_STORE || "file").toLowerCase();
+const JOB_STORE_PATH = process.env.JOB_STORE_PATH || statePath("jobs.json");
+
+// Finished jobs are only kept around so late status polls still resolve.
+const JOB_RETENTION_MS = Number(process.env.JOB_RETENTION_HOURS || 24) * 60 * 60 * 1000;
+const JOB_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Progress ticks are persisted at most this often; status transitions are written immediately.
+const JOB_PROGRESS_PERSIST_MS = Number(process.env.JOB_PROGRESS_PERSIST_MS || 5000);
+
+// Fields that change on every progress tick. Losing the latest of them in a crash only costs a stale bar.
+const TRANSIENT_FIELDS = new Set<string>(["progress", "stage", "stageProgress", "etaSeconds", "partial"]);
+
+// "queued" means the job is waiting for a free download or separation worker.
+export type PrepareJobStatus =
+  | "pending"
+  | "queued"
+  | "downloading"
+  | "separating"
+  | "complete"
+  | "error"
+  | "cancelled";
+
+export type PrepareJob = {
+  jobId: string;
+  videoId: string;
+  // Where the audio comes from; jobs persisted before providers existed are YouTube.
+  source?: MediaSourceRef;
+  // Separation backend/model requested for this job; unset means the server default.
+  separator?: SeparatorChoice;
+  title: string;
+  channelTitle: string;
+  status: PrepareJobStatus;
+  // Overall progress 0-100 across all steps.
+  progress: number;
+  stage: string;
+  // Progress 0-100 and ETA reported by the tool running the current step, when it prints them.
+  stageProgress?: number | null;
+  etaSeconds?: number | null;
+  // User-facing message plus a machine-readable code for the failure class.
+  error?: string;
+  // SOURCE_* codes when the source guardrails turned the song down.
+  errorCode?: PrepareErrorCode | SourceRejectionCode;
+  result?: {
+    instrumentalPath: string;
+    vocalsPath: string;
+  };
+  // Progressive separation: latest partial stems revision and how much of the song they cover.
+  partial?: {
+    revision: number;
+    readySeconds: number;
+    totalSeconds: number;
+    gainDb: number | null;
+  };
+  // Number of times processing was (re)started, including resumes after a restart.
+  attempts: number;
+  // Clients waiting on this job (duplicate requests attach to it); it is only cancelled when the last one leaves.
+  subscribers: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Persistence backend for prepare jobs.
+ *
+ * The in-process Map stays the source of truth for reads; backends only need
+ * to load everything on boot and accept write-through updates, which keeps
+ * them easy to swap for a shared store (e.g. Redis hashes keyed by jobId).
+ */
+export interface JobStoreBackend {
+  readonly name: string;
+  load(): Promise<PrepareJob[]>;
+  save(job: PrepareJob, all: PrepareJob[]): Promise<void>;
+  remove(jobId: string, all: PrepareJob[]): Promise<void>;
+}
+
+function createMemoryBackend(): JobStoreBackend {
+  return {
+    name: "memory",
+    async load() {
+      return [];
+    },
+    async save() {},
+    async remove() {},
+  };
+}
+
+function createFileBackend(filePath: string): JobStoreBackend {
+  // Serialize writes so an older snapshot never lands after a newer one.
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const writeAll = (all: PrepareJob[]) => {
+    const payload = JSON.stringify({ version: 1, jobs: all }, null, 2);
+    writeChain = writeChain
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpPath, payload, "utf-8");
+        await fs.promises.rename(tmpPath, filePath);
+      })
+      .catch((error) => {
+        console.warn("[Jobs] Failed to persist job store:", error);
+      });
+    return writeChain;
+  };
+
+  return {
+    name: "file",
+    async load() {
+      if (!fs.existsSync(filePath)) return [];
+      try {
+        const raw = await fs.promises.readFile(filePath, "utf-8");
+        const parsed = JSON.parse(raw) as { jobs?: PrepareJob[] };
+        return Array.isArray(parsed.jobs) ? parsed.jobs.filter((j) => j && typeof j.jobId === "string") : [];
+      } catch (error) {
+        console.warn(`[Jobs] Ignoring unreadable job store at ${filePath}:`, error);
+        return [];
+      }
+    },
+    save(_job, all) {
+      return writeAll(all);
+    },
+    remove(_jobId, all) {
+      return writeAll(all);
+    },
+  };
+}
+
+function createBackend(): JobStoreBackend {
+  if (JOB_STORE_BACKEND === "memory") return createMemoryBackend();
+  if (JOB_STORE_BACKEND !== "file") {
+    console.warn(`[Jobs] Unknown JOB_STORE "${JOB_STORE_BACKEND}", falling back to file store`);
+  }
+  return createFileBackend(JOB_STORE_PATH);
+}
+
+const backend = createBackend();
+const jobs = new Map<string, PrepareJob>();
+// Jobs whose latest progress hasn't been written yet, flushed together by persistTimer.
+const dirtyJobs = new Set<string>();
+let persistTimer: NodeJS.Timeout | null = null;
+
+function flushDirtyJobs() {
+  persistTimer = null;
+  for (const jobId of dirtyJobs) {
+    const job = jobs.get(jobId);
+    if (job) void backend.save(job, listJobs());
+  }
+  dirtyJobs.clear();
+}
+
+function persistJob(job: PrepareJob, immediate: boolean) {
+  if (immediate) {
+    dirtyJobs.delete(job.jobId);
+    void backend.save(job, listJobs());
+    return;
+  }
+  dirtyJobs.add(job.jobId);
+  persistTimer ??= setTimeout(flushDirtyJobs, JOB_PROGRESS_PERSIST_MS);
+}
+
+export function isActiveJob(job: PrepareJob): boolean {
+  return job.status !== "complete" && job.status !== "error" && job.status !== "cancelled";
+}
+
+function isExpired(job: PrepareJob, now: number): boolean {
+  if (isActiveJob(job)) return false;
+  const updatedAt = new Date(job.updatedAt).getTime();
+  return Number.isFinite(updatedAt) && now - updatedAt > JOB_RETENTION_MS;
+}
+
+async function pruneExpiredJobs(): Promise<number> {
+  const now = Date.now();
+  const expired = listJobs().filter((job) => isExpired(job, now));
+  for (const job of expired) {
+    jobs.delete(job.jobId);
+    dirtyJobs.delete(job.jobId);
+    await backend.remove(job.jobId, listJobs());
+  }
+  return expired.length;
+}
+
+/**
+ * Load persisted jobs into memory and keep pruning expired ones while running.
+ * Returns the jobs that were still in flight when the previous process stopped.
+ */
+export async function initJobStore(): Promise<PrepareJob[]> {
+  // Stores written before subscriber tracking existed had exactly one client per job.
+  for (const job of await backend.load()) jobs.set(job.jobId, { ...job, subscribers: job.subscribers ?? 1 });
+  const pruned = await pruneExpiredJobs();
+  setInterval(() => void pruneExpiredJobs(), JOB_PRUNE_INTERVAL_MS).unref();
+
+  console.log(
+    `[Jobs] Loaded ${jobs.size} job(s) from ${backend.name} store` + (pruned ? `, pruned ${pruned}` : "")
+  );
+  return listJobs().filter(isActiveJob);
+}
+
+export function getJob(jobId: string): PrepareJob | undefined {
+  return jobs.get(jobId);
+}
+
+export function listJobs(): PrepareJob[] {
+  return Array.from(jobs.values());
+}
+
+/**
+ * The job currently preparing `videoId`, if any. Used to attach duplicate requests to it.
+ */
+export function findActiveJobForVideo(videoId: string): PrepareJob | undefined {
+  return listJobs().find((job) => job.videoId === videoId && isActiveJob(job));
+}
+
+export function createJob(job: Omit<PrepareJob, "createdAt" | "updatedAt">): PrepareJob {
+  const now = new Date().toISOString();
+  const created: PrepareJob = { ...job, createdAt: now, updatedAt: now };
+  jobs.set(created.jobId, created);
+  persistJob(created, true);
+  return created;
+}
+
+/**
+ * Apply a state transition and write it through to the backend; patches that
+ * only move progress along are batched.
+ */
+export function updateJob(jobId: string, patch: Partial<Omit<PrepareJob, "jobId" | "createdAt">>): PrepareJob | undefined {
+  const current = jobs.get(jobId);
+  if (!current) return undefined;
+
+  const next: PrepareJob = { ...current, ...patch, updatedAt: new Date().toISOString() };
+  jobs.set(jobId, next);
+  persistJob(next, !Object.keys(patch).every((key) => TRANSIENT_FIELDS.has(key)));
+  return next;
+}
@@ -0,0 +1,38 @@
+// Tail of the pending work chain for each key; entries are removed once the chain drains.
+const tails = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` exclusively for `key`: calls with the same key execute one after
+ * another in arrival order, calls with different keys run concurrently.
+ */
+export async function withKeyedLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = tails.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+
+  const tail = run.catch(() => undefined);
+  tails.set(key, tail);
+
+  try {
+    return await run;
+  } finally {
+    if (tails.get(key) === tail) tails.delete(key);
+  }
+}
+
+/** Whether work is running (or waiting) under `key` right now. */
+export function isKeyLocked(key: string): boolean {
+  return tails.has(key);
+}
+
+export function downloadLockKey(videoId: string): string {
+  return `download:${videoId}`;
+}
+
+export function separationLockKey(videoId: string): string {
+  return `separate:${videoId}`;
+}
+
+// Lyrics work that writes into the song dir outside a job (Whisper transcription).
+export function lyricsLockKey(videoId: string): string {
+  return `lyrics:${videoId}`;
+}
@@ -0,0 +1,74 @@
+import path from "path";
+
+import { resolveCacheDir, stemsWrittenAt } from "./cachePaths.js";
+import { runProcess } from "./processRunner.js";
+import { readSongMeta, updateSongMeta, type StemLoudness } from "./songMeta.js";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+// The player can only turn volume down (HTMLAudioElement.volume <= 1), so aim below
+// typical mastered levels (-14..-8 LUFS) and let most songs be attenuated to match.
+const LOUDNESS_TARGET_LUFS = Number(process.env.LOUDNESS_TARGET_LUFS || -20);
+const MIN_GAIN_DB = -24;
+const MAX_GAIN_DB = 12;
+
+// ebur128 summary block: "Integrated loudness:\n    I:         -14.3 LUFS"
+const INTEGRATED_RE = /I:\s+(-?\d+(?:\.\d+)?)\s+LUFS/g;
+// ebur128 reports pure silence as -70 LUFS; no useful gain can come from that.
+const SILENCE_LUFS = -70;
+
+/**
+ * Integrated loudness (EBU R128) of a file via ffmpeg's ebur128 filter, or null for silence.
+ */
+export async function measureLoudness(file: string, signal?: AbortSignal): Promise<number | null> {
+  const { stderr } = await runProcess(
+    FFMPEG_PATH,
+    ["-hide_banner", "-nostats", "-i", file, "-af", "ebur128=framelog=quiet", "-f", "null", "-"],
+    { timeoutMs: 120000, signal }
+  );
+  // The summary comes last; earlier matches would be per-frame lines if framelog were on.
+  const matches = [...stderr.matchAll(INTEGRATED_RE)];
+  const value = matches.length > 0 ? Number(matches[matches.length - 1][1]) : NaN;
+  return Number.isFinite(value) && value > SILENCE_LUFS ? value : null;
+}
+
+function gainForLoudness(lufs: number): number {
+  const gain = Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, LOUDNESS_TARGET_LUFS - lufs));
+  return Math.round(gain * 10) / 10;
+}
+
+/**
+ * Playback gain for a single instrumental file, e.g. a partial stem while the rest
+ * is still being separated; null for silence.
+ */
+export async function estimatePlaybackGain(instrumentalFile: string, signal?: AbortSignal): Promise<number | null> {
+  const lufs = await measureLoudness(instrumentalFile, signal);
+  return lufs === null ? null : gainForLoudness(lufs);
+}
+
+/**
+ * Measure both stems and store one playback gain for the pair in meta.json, so
+ * the instrumental/vocal balance Demucs produced is kept. Stems already measured are skipped
+ * until they are separated again.
+ */
+export async function analyzeStemLoudness(videoId: string, signal?: AbortSignal): Promise<StemLoudness | null> {
+  const videoDir = resolveCacheDir(videoId);
+  const stemsMtimeMs = stemsWrittenAt(videoDir);
+  const existing = readSongMeta(videoId)?.loudness;
+  if (existing && existing.stemsMtimeMs >= stemsMtimeMs) return existing;
+
+  const instrumentalLufs = await measureLoudness(path.join(videoDir, "instrumental.wav"), signal);
+  if (instrumentalLufs === null) return null;
+  const vocalsLufs = await measureLoudness(path.join(videoDir, "vocals.wav"), signal);
+
+  const loudness: StemLoudness = {
+    instrumentalLufs,
+    vocalsLufs,
+    targetLufs: LOUDNESS_TARGET_LUFS,
+    gainDb: gainForLoudness(instrumentalLufs),
+    stemsMtimeMs,
+  };
+
+  updateSongMeta(videoId, { loudness });
+  console.log(`[Loudness] ${videoId}: ${instrumentalLufs} LUFS -> gain ${loudness.gainDb} dB`);
+  return loudness;
+}
@@ -1,13 +1,16 @@
-import { exec } from "child_process";
 import https from "https";
-import { promisify } from "util";
 import * as fs from "node:fs";
 import * as path from "node:path";
 
-const execAsync = promisify(exec);
+import { writeJsonAtomic } from "./atomicFile.js";
+import { findSourceAudio, isValidVideoId, resolveCacheDir } from "./cachePaths.js";
+import { indexSong } from "./catalog.js";
+import { downloadLockKey, lyricsLockKey, withKeyedLock } from "./locks.js";
+import { downloadYouTubeAudio } from "./mediaSources.js";
+import { runProcess } from "./processRunner.js";
+import { readSongMeta } from "./songMeta.js";
 
 const SERVER_ROOT = process.cwd();
-const CACHE_DIR = path.join(SERVER_ROOT, "cache");
 const LRCLIB_HOST = "lrclib.net";
 
 const YT_DLP_PATH =
@@ -380,13 +383,13 @@ function parseWhisperJson(raw: string): LyricsLine[] {
 }
 
 function ensureVideoCacheDir(videoId: string): string {
-  const dir = path.join(CACHE_DIR, videoId);
+  const dir = resolveCacheDir(videoId);
   if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
   return dir;
 }
 
 function readCachedLyrics(videoId: string): LyricsResponse | null {
-  const cachePath = path.join(CACHE_DIR, videoId, "lyrics.json");
+  const cachePath = path.join(resolveCacheDir(videoId), "lyrics.json");
   if (!fs.existsSync(cachePath)) return null;
 
   try {
@@ -451,7 +454,8 @@ function readCachedLyrics(videoId: string): LyricsResponse | null {
 function writeCachedLyrics(result: LyricsResponse): void {
   const videoDir = ensureVideoCacheDir(result.videoId);
   const cachePath = path.join(videoDir, "lyrics.json");
-  fs.writeFileSync(cachePath, JSON.stringify(result, null, 2), "utf-8");
+  writeJsonAtomic(cachePath, result);
+  indexSong(result.videoId);
 }
 
 function subtitleLangScore(fileName: string): number {
@@ -496,21 +500,24 @@ function cleanSearchName(input: string): string {
     .trim();
 }
 
-function readMeta(videoDir: string): { title: string; channelTitle: string } {
-  const fallback = { title: "", channelTitle: "" };
-  const metaPath = path.join(videoDir, "meta.json");
-  if (!fs.existsSync(metaPath)) return fallback;
+type LyricsMeta = {
+  title: string;
+  channelTitle: string;
+  // From yt-dlp or file tags; empty when the source had none.
+  artist: string;
+  track: string;
+  durationSeconds: number | null;
+};
 
-  try {
-    const raw = fs.readFileSync(metaPath, "utf-8");
-    const meta = JSON.parse(raw) as { title?: string; channelTitle?: string };
-    return {
-      title: typeof meta.title === "string" ? meta.title : "",
-      channelTitle: typeof meta.channelTitle === "string" ? meta.channelTitle : "",
-    };
-  } catch {
-    return fallback;
-  }
+function readMeta(videoId: string): LyricsMeta {
+  const meta = readSongMeta(videoId);
+  return {
+    title: meta?.title ?? "",
+    channelTitle: meta?.channelTitle ?? meta?.uploader ?? "",
+    artist: meta?.artist ?? "",
+    track: meta?.track ?? "",
+    durationSeconds: meta?.durationSeconds ?? null,
+  };
 }
 
 function extractArtistTrackCandidates(title: string, channelTitle: string): Array<{ artist: string; track: string }> {
@@ -572,7 +579,12 @@ function requestJson<T>(pathWithQuery: string): Promise<T | null> {
   });
 }
 
-function scoreCatalogCandidate(track: LRCLibTrack, artist: string, song: string): number {
+function scoreCatalogCandidate(
+  track: LRCLibTrack,
+  artist: string,
+  song: string,
+  durationSeconds: number | null
+): number {
   const t = (track.trackName || "").toLowerCase();
   const a = (track.artistName || "").toLowerCase();
   const targetTrack = song.toLowerCase();
@@ -585,6 +597,13 @@ function scoreCatalogCandidate(track: LRCLibTrack, artist: string, song: string)
   if (targetArtist && a === targetArtist) score += 10;
   else if (targetArtist && (a.includes(targetArtist) || targetArtist.includes(a))) score += 6;
 
+  // Same song, different cut (radio edit, live, extended) won't line up with our audio.
+  if (durationSeconds && track.duration) {
+    const diff = Math.abs(track.duration - durationSeconds);
+    if (diff <= 3) score += 8;
+    else if (diff > 20) score -= 10;
+  }
+
   if (track.syncedLyrics && track.syncedLyrics.trim()) score += 10;
   if (track.plainLyrics && track.plainLyrics.trim()) score += 3;
 
@@ -602,6 +621,14 @@ function extractPlainLyrics(track: LRCLibTrack): string {
 }
 
 async function ensureAudioSource(videoId: string, videoDir: string): Promise<string | null> {
+  // Shares the downloader's lock so a prepare job and a lyrics request never write source.m4a together.
+  return withKeyedLock(downloadLockKey(videoId), () => ensureAudioSourceUnlocked(videoId, videoDir));
+}
+
+async function ensureAudioSourceUnlocked(videoId: string, videoDir: string): Promise<string | null> {
+  // Non-YouTube sources were fetched by their provider when the song was prepared.
+  if (!isValidVideoId(videoId)) return findSourceAudio(videoDir);
+
   const audioPath = path.join(videoDir, "source.m4a");
   if (fs.existsSync(audioPath)) return audioPath;
 
@@ -610,13 +637,9 @@ async function ensureAudioSource(videoId: string, videoDir: string): Promise<str
     return null;
   }
 
-  const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-  const command =
-    `"${YT_DLP_PATH}" -f "bestaudio[ext=m4a]/bestaudio" --extract-audio --audio-format m4a ` +
-    `--audio-quality 128K -o "${audioPath}" "${videoUrl}"`;
-
   try {
-    await execAsync(command, { timeout: 240000 });
+    // Staged like a prepare job's download, so a cut-off fetch never leaves a source.m4a behind.
+    await downloadYouTubeAudio(videoId, videoDir, { timeoutMs: 240000 });
   } catch (error) {
     console.warn("[Lyrics] Failed to fetch audio source:", error);
   }
@@ -647,12 +670,21 @@ async function fetchCaptionsViaYtDlp(
   const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
   const outPattern = path.join(videoDir, "captions.%(ext)s");
 
-  const command =
-    `"${YT_DLP_PATH}" --write-auto-subs --write-subs --sub-langs "all,-live_chat" ` +
-    `--skip-download --sub-format vtt --output "${outPattern}" "${videoUrl}"`;
+  const args = [
+    "--write-auto-subs",
+    "--write-subs",
+    "--sub-langs",
+    "all,-live_chat",
+    "--skip-download",
+    "--sub-format",
+    "vtt",
+    "--output",
+    outPattern,
+    videoUrl,
+  ];
 
   try {
-    await execAsync(command, { timeout: 180000 });
+    await runProcess(YT_DLP_PATH, args, { timeoutMs: 180000 });
   } catch (error) {
     console.warn("[Lyrics] yt-dlp subtitle fetch failed:", error);
   }
@@ -661,6 +693,11 @@ async function fetchCaptionsViaYtDlp(
 }
 
 async function runWhisperAndGetSegments(videoId: string, videoDir: string): Promise<WhisperSegment[]> {
+  // Held for the whole transcription so cache verify leaves the song's dir alone meanwhile.
+  return withKeyedLock(lyricsLockKey(videoId), () => runWhisperUnlocked(videoId, videoDir));
+}
+
+async function runWhisperUnlocked(videoId: string, videoDir: string): Promise<WhisperSegment[]> {
   const audioPath = await ensureAudioSource(videoId, videoDir);
   if (!audioPath) return [];
 
@@ -678,12 +715,24 @@ async function runWhisperAndGetSegments(videoId: string, videoDir: string): Prom
     }
   }
 
-  const command =
-    `"${WHISPER_PATH}" "${audioPath}" --model "${WHISPER_MODEL}" --task transcribe ` +
-    `--output_format json --output_dir "${videoDir}" --fp16 False --verbose False`;
+  const args = [
+    audioPath,
+    "--model",
+    WHISPER_MODEL,
+    "--task",
+    "transcribe",
+    "--output_format",
+    "json",
+    "--output_dir",
+    videoDir,
+    "--fp16",
+    "False",
+    "--verbose",
+    "False",
+  ];
 
   try {
-    await execAsync(command, { timeout: 600000, maxBuffer: 32 * 1024 * 1024 });
+    await runProcess(WHISPER_PATH, args, { timeoutMs: 600000 });
   } catch (error) {
     console.warn("[Lyrics] Whisper run failed:", error);
     return [];
@@ -721,9 +770,10 @@ function alignPlainLyricsWithSegments(plainLyrics: string, segments: WhisperSegm
   return deduped;
 }
 
-async function fetchCatalogLyricsCandidates(videoDir: string, expectedScript: ScriptType): Promise<CatalogCandidate[]> {
-  const meta = readMeta(videoDir);
+async function fetchCatalogLyricsCandidates(meta: LyricsMeta, expectedScript: ScriptType): Promise<CatalogCandidate[]> {
   const queries = extractArtistTrackCandidates(meta.title, meta.channelTitle);
+  // Artist/track tags from the media itself beat anything parsed out of a video title.
+  if (meta.artist && meta.track) queries.unshift({ artist: meta.artist, track: meta.track });
   const collected: CatalogCandidate[] = [];
 
   for (const q of queries) {
@@ -732,7 +782,7 @@ async function fetchCatalogLyricsCandidates(videoDir: string, expectedScript: Sc
     const getPath = `/api/get?track_name=${encodeURIComponent(q.track)}&artist_name=${encodeURIComponent(q.artist)}`;
     const direct = await requestJson<LRCLibTrack>(getPath);
     if (direct) {
-      const directScore = scoreCatalogCandidate(direct, q.artist, q.track) + 15;
+      const directScore = scoreCatalogCandidate(direct, q.artist, q.track, meta.durationSeconds) + 15;
       collected.push({
         track: direct,
         score: directScore,
@@ -748,7 +798,7 @@ async function fetchCatalogLyricsCandidates(videoDir: string, expectedScript: Sc
     const ranked = results
       .map((item) => ({
         track: item,
-        score: scoreCatalogCandidate(item, q.artist, q.track),
+        score: scoreCatalogCandidate(item, q.artist, q.track, meta.durationSeconds),
         label: `${item.trackName || q.track} — ${item.artistName || q.artist || "Unknown"}`,
       }))
       .sort((a, b) => b.score - a.score);
@@ -780,7 +830,7 @@ async function fetchCatalogLyricsCandidates(videoDir: string, expectedScript: Sc
 
 export async function getLyrics(videoId: string): Promise<LyricsResponse> {
   const videoDir = ensureVideoCacheDir(videoId);
-  const meta = readMeta(videoDir);
+  const meta = readMeta(videoId);
   const expectedScript = detectExpectedScriptFromMeta(meta.title, meta.channelTitle);
 
   const cached = readCachedLyrics(videoId);
@@ -795,8 +845,8 @@ export async function getLyrics(videoId: string): Promise<LyricsResponse> {
 
   const rawCandidates: Omit<LyricsCandidate, "score">[] = [];
 
-  // 1) Native captions
-  const subtitleFile = await fetchCaptionsViaYtDlp(videoId, videoDir, expectedScript);
+  // 1) Native captions (YouTube only)
+  const subtitleFile = !isValidVideoId(videoId) ? null : await fetchCaptionsViaYtDlp(videoId, videoDir, expectedScript);
   if (subtitleFile && fs.existsSync(subtitleFile)) {
     try {
       const raw = fs.readFileSync(subtitleFile, "utf-8");
@@ -820,7 +870,7 @@ export async function getLyrics(videoId: string): Promise<LyricsResponse> {
   }
 
   // 2) Catalog candidates (2~3 인터넷 후보 비교용)
-  const catalogCandidates = await fetchCatalogLyricsCandidates(videoDir, expectedScript);
+  const catalogCandidates = await fetchCatalogLyricsCandidates(meta, expectedScript);
   for (let i = 0; i < catalogCandidates.length; i++) {
     const c = catalogCandidates[i];
     const synced = extractSyncedLines(c.track);
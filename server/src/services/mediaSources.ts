@@ -0,0 +1,515 @@
+import path from "path";
+import fs from "fs";
+import net from "net";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+import { findSourceAudio, hashedCacheId, isValidVideoId } from "./cachePaths.js";
+import { PrepareError } from "./prepareErrors.js";
+import { maxSourceSizeBytes, type SourceFacts } from "./sourceLimits.js";
+import { isAbortError, parseClockSeconds, runProcess, type ToolProgress } from "./processRunner.js";
+import { BlockedUrlError, fetchPublicUrl, isBlockedAddress } from "./publicUrl.js";
+
+const SERVER_ROOT = process.cwd(); // when running from ~/singsync/server
+
+// Prefer explicitly configured tool paths, otherwise try common locations.
+// 1) server/.venv/bin
+// 2) repo-root/.venv/bin (one level up from server)
+const YT_DLP_PATH =
+  process.env.YT_DLP_PATH ||
+  (fs.existsSync(path.join(SERVER_ROOT, ".venv", "bin", "yt-dlp"))
+    ? path.join(SERVER_ROOT, ".venv", "bin", "yt-dlp")
+    : path.join(SERVER_ROOT, "..", ".venv", "bin", "yt-dlp"));
+
+// Used to read duration and tags from non-YouTube audio; metadata is simply skipped when missing.
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+// Library sources are disabled unless the host points us at a music folder.
+const MEDIA_LIBRARY_DIR = process.env.MEDIA_LIBRARY_DIR ? path.resolve(process.env.MEDIA_LIBRARY_DIR) : null;
+const URL_DOWNLOAD_TIMEOUT_MS = Number(process.env.URL_DOWNLOAD_TIMEOUT_MS || 120000);
+// Subdirectory of the song's cache dir that yt-dlp downloads into.
+const DOWNLOAD_STAGING_DIR = "download";
+
+// Anything ffmpeg (and therefore Demucs/Whisper) can decode.
+const AUDIO_EXTENSIONS = new Set([".mp3", ".m4a", ".aac", ".wav", ".flac", ".ogg", ".oga", ".opus", ".webm"]);
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": ".mp3",
+  "audio/mp3": ".mp3",
+  "audio/mp4": ".m4a",
+  "audio/x-m4a": ".m4a",
+  "audio/aac": ".aac",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/wave": ".wav",
+  "audio/flac": ".flac",
+  "audio/x-flac": ".flac",
+  "audio/ogg": ".ogg",
+  "audio/opus": ".opus",
+  "audio/webm": ".webm",
+};
+
+export type MediaSourceKind = "youtube" | "url" | "library" | "upload";
+
+/** Which provider produced a cache entry and the reference it was given (videoId, URL, library path, file name). */
+export type MediaSourceRef = {
+  kind: MediaSourceKind;
+  ref: string;
+};
+
+/** Facts about the media itself, as reported by yt-dlp or the file's own tags. */
+export type MediaMetadata = {
+  durationSeconds?: number;
+  uploader?: string;
+  artist?: string;
+  track?: string;
+  album?: string;
+  thumbnail?: string;
+  language?: string;
+};
+
+export type FetchedSource = {
+  audioPath: string;
+  // Empty when the source was already cached; metadata from the first fetch lives in meta.json.
+  metadata: MediaMetadata;
+};
+
+export interface FetchSourceOptions {
+  // Aborting stops the transfer and removes partially written files.
+  signal?: AbortSignal;
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+export interface MediaSource {
+  readonly kind: MediaSourceKind;
+  // Stage label shown while the source is fetched.
+  readonly stage: string;
+  // Remote fetches wait for a download slot; local ones run immediately.
+  readonly remote: boolean;
+  /** Validate a request's reference and derive the cache id it is stored under. */
+  resolve(ref: string): { videoId: string; ref: string };
+  /** Cheap look at duration/size/liveness before fetching, for the prepare guardrails. */
+  probe(ref: string): Promise<SourceFacts>;
+  /** Put the audio into `videoDir` (or find it there) and return its path plus whatever metadata it carries. */
+  fetch(videoId: string, ref: string, videoDir: string, options: FetchSourceOptions): Promise<FetchedSource>;
+}
+
+export type SourceRequestErrorCode =
+  | "INVALID_VIDEO_ID"
+  | "INVALID_SOURCE"
+  | "UNSUPPORTED_SOURCE"
+  | "SOURCE_DISABLED"
+  | "SOURCE_NOT_FOUND";
+
+// A prepare request named a source we can't use; reported back as a 400.
+export class SourceRequestError extends Error {
+  constructor(
+    readonly code: SourceRequestErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SourceRequestError";
+  }
+}
+
+export function audioExtension(fileName: string): string | null {
+  const ext = path.extname(fileName).toLowerCase();
+  return AUDIO_EXTENSIONS.has(ext) ? ext : null;
+}
+
+/**
+ * Remove what an unfinished fetch may have left behind (.part/.ytdl fragments,
+ * pre-extraction containers, half-written source files).
+ */
+function removePartialSource(videoDir: string) {
+  if (!fs.existsSync(videoDir)) return;
+  for (const name of fs.readdirSync(videoDir)) {
+    // source.json is the Whisper transcript, not download output.
+    if (!name.startsWith("source.") || name === "source.json") continue;
+    fs.rmSync(path.join(videoDir, name), { force: true });
+  }
+}
+
+// e.g. "[download]  42.3% of    3.52MiB at    1.21MiB/s ETA 00:02"
+const YT_DLP_PROGRESS_RE = /^\[download\]\s+(\d+(?:\.\d+)?)%.*?(?:ETA\s+(\S+))?$/;
+
+function parseYtDlpProgress(line: string): ToolProgress | null {
+  const m = line.trim().match(YT_DLP_PROGRESS_RE);
+  if (!m) return null;
+  const percent = Number(m[1]);
+  if (!Number.isFinite(percent)) return null;
+  return { percent, etaSeconds: m[2] ? parseClockSeconds(m[2]) : null };
+}
+
+function nonEmpty(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * yt-dlp prints its info JSON as one stdout line (--dump-json); progress lines are plain text.
+ */
+function parseYtDlpInfo(stdout: string): MediaMetadata {
+  const line = stdout.split("\n").find((l) => l.trimStart().startsWith("{"));
+  if (!line) return {};
+
+  try {
+    const info = JSON.parse(line) as Record<string, unknown>;
+    const artists = Array.isArray(info.artists) ? info.artists.filter((a) => typeof a === "string").join(", ") : "";
+    return {
+      durationSeconds: positiveNumber(info.duration),
+      uploader: nonEmpty(info.uploader) ?? nonEmpty(info.channel),
+      artist: nonEmpty(info.artist) ?? nonEmpty(artists),
+      track: nonEmpty(info.track),
+      album: nonEmpty(info.album),
+      thumbnail: nonEmpty(info.thumbnail),
+      language: nonEmpty(info.language),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Duration and tags from ffprobe. Tag keys vary in case between containers (ARTIST in FLAC, artist in MP3).
+ */
+export async function probeAudioMetadata(audioPath: string): Promise<MediaMetadata> {
+  try {
+    const { stdout } = await runProcess(
+      FFPROBE_PATH,
+      ["-v", "quiet", "-print_format", "json", "-show_format", audioPath],
+      { timeoutMs: 30000 }
+    );
+    const format = (JSON.parse(stdout) as { format?: { duration?: string; tags?: Record<string, unknown> } }).format;
+    const tags = Object.fromEntries(Object.entries(format?.tags ?? {}).map(([k, v]) => [k.toLowerCase(), v]));
+    return {
+      durationSeconds: positiveNumber(format?.duration),
+      artist: nonEmpty(tags.artist) ?? nonEmpty(tags.album_artist),
+      track: nonEmpty(tags.title),
+      album: nonEmpty(tags.album),
+      language: nonEmpty(tags.language),
+    };
+  } catch (error) {
+    console.warn(`[Metadata] ffprobe failed for ${audioPath}:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+/** Size from the filesystem, duration from ffprobe. */
+export async function probeLocalFile(file: string): Promise<SourceFacts> {
+  const { durationSeconds } = await probeAudioMetadata(file);
+  return { durationSeconds, sizeBytes: fs.statSync(file).size };
+}
+
+const youtubeSource: MediaSource = {
+  kind: "youtube",
+  stage: "Downloading audio from YouTube",
+  remote: true,
+
+  resolve(ref) {
+    if (!isValidVideoId(ref)) throw new SourceRequestError("INVALID_VIDEO_ID", "Invalid videoId");
+    return { videoId: ref, ref };
+  },
+
+  async probe(ref) {
+    // A missing yt-dlp is reported by the download step with a proper error code.
+    if (!fs.existsSync(YT_DLP_PATH)) return {};
+
+    const { stdout } = await runProcess(
+      YT_DLP_PATH,
+      ["-J", "--no-playlist", "-f", "bestaudio[ext=m4a]/bestaudio", `https://www.youtube.com/watch?v=${ref}`],
+      { timeoutMs: 30000 }
+    );
+    const info = JSON.parse(stdout) as Record<string, unknown>;
+    return {
+      durationSeconds: positiveNumber(info.duration),
+      // Top-level size fields describe the format selected with -f.
+      sizeBytes: positiveNumber(info.filesize) ?? positiveNumber(info.filesize_approx),
+      isLive: info.is_live === true || info.live_status === "is_live" || info.live_status === "is_upcoming",
+    };
+  },
+
+  async fetch(videoId, _ref, videoDir, options) {
+    const outputPath = path.join(videoDir, "source.m4a");
+    if (fs.existsSync(outputPath)) {
+      console.log(`[Cache Hit] ${videoId} already downloaded`);
+      return { audioPath: outputPath, metadata: {} };
+    }
+
+    // Validate yt-dlp path early
+    if (!fs.existsSync(YT_DLP_PATH)) {
+      throw new PrepareError(
+        "TOOL_MISSING",
+        `yt-dlp not found. Expected at: ${YT_DLP_PATH}. ` +
+          `Fix by creating venv at server/.venv or set YT_DLP_PATH in server/.env`
+      );
+    }
+
+    const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    console.log(`[Download] Starting: ${videoUrl}`);
+
+    try {
+      const stdout = await downloadYouTubeAudio(videoId, videoDir, {
+        // Print the info JSON (duration, artist/track tags, ...) and still download.
+        // --dump-json implies --quiet; --progress keeps the [download] NN% lines parseYtDlpProgress reads.
+        extraArgs: ["--dump-json", "--no-simulate", "--progress"],
+        timeoutMs: 120000,
+        signal: options.signal,
+        onLine: (line) => {
+          const progress = parseYtDlpProgress(line);
+          if (progress) options.onProgress?.(progress);
+        },
+      });
+      return { audioPath: outputPath, metadata: parseYtDlpInfo(stdout) };
+    } catch (error) {
+      if (isAbortError(error)) removePartialSource(videoDir);
+      throw error;
+    }
+  },
+};
+
+/**
+ * Download a YouTube video's audio to `<videoDir>/source.m4a` and return yt-dlp's stdout.
+ * yt-dlp writes (and post-processes) in a staging dir; source.m4a only appears once complete,
+ * so an interrupted download can never pass for a cache hit. Callers hold the download lock.
+ */
+export async function downloadYouTubeAudio(
+  videoId: string,
+  videoDir: string,
+  options: { timeoutMs: number; signal?: AbortSignal; extraArgs?: string[]; onLine?: (line: string) => void }
+): Promise<string> {
+  const stagingDir = path.join(videoDir, DOWNLOAD_STAGING_DIR);
+  const stagedPath = path.join(stagingDir, "source.m4a");
+  fs.rmSync(stagingDir, { recursive: true, force: true });
+  fs.mkdirSync(stagingDir, { recursive: true });
+
+  try {
+    const { stdout } = await runProcess(
+      YT_DLP_PATH,
+      [
+        "-f",
+        "bestaudio[ext=m4a]/bestaudio",
+        "--extract-audio",
+        "--audio-format",
+        "m4a",
+        "--audio-quality",
+        "128K",
+        // One progress line per update instead of an in-place bar.
+        "--newline",
+        ...(options.extraArgs ?? []),
+        "-o",
+        stagedPath,
+        `https://www.youtube.com/watch?v=${videoId}`,
+      ],
+      { timeoutMs: options.timeoutMs, signal: options.signal, onLine: options.onLine }
+    );
+    fs.renameSync(stagedPath, path.join(videoDir, "source.m4a"));
+    return stdout;
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
+
+function extensionForResponse(url: URL, contentType: string | null): string | null {
+  const fromPath = audioExtension(url.pathname);
+  if (fromPath) return fromPath;
+  const mime = (contentType || "").split(";")[0].trim().toLowerCase();
+  return CONTENT_TYPE_EXTENSIONS[mime] ?? null;
+}
+
+const urlSource: MediaSource = {
+  kind: "url",
+  stage: "Downloading audio",
+  remote: true,
+
+  resolve(ref) {
+    let url: URL;
+    try {
+      url = new URL(ref);
+    } catch {
+      throw new SourceRequestError("INVALID_SOURCE", "Invalid URL");
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new SourceRequestError("INVALID_SOURCE", "Only http(s) URLs are supported");
+    }
+    // Hostnames are checked once resolved, at fetch time; literal internal addresses can be refused now.
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (net.isIP(host) && isBlockedAddress(host)) {
+      throw new SourceRequestError("INVALID_SOURCE", "URLs pointing at internal addresses are not allowed");
+    }
+    const normalized = url.toString();
+    return { videoId: hashedCacheId("url", normalized), ref: normalized };
+  },
+
+  async probe(ref) {
+    const res = await fetchPublicUrl(ref, { method: "HEAD", signal: AbortSignal.timeout(10000) });
+    return res.ok ? { sizeBytes: positiveNumber(res.headers.get("content-length")) } : {};
+  },
+
+  async fetch(videoId, ref, videoDir, options) {
+    const existing = findSourceAudio(videoDir);
+    if (existing) {
+      console.log(`[Cache Hit] ${videoId} already downloaded`);
+      return { audioPath: existing, metadata: {} };
+    }
+
+    console.log(`[Download] Starting: ${ref}`);
+    const timeout = AbortSignal.timeout(URL_DOWNLOAD_TIMEOUT_MS);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    let partPath: string | null = null;
+    try {
+      const res = await fetchPublicUrl(ref, { signal });
+      if (!res.ok || !res.body) {
+        // Rate limits and server errors may clear up; anything else won't.
+        const transient = res.status === 429 || res.status >= 500;
+        throw new PrepareError(
+          transient ? "NETWORK" : "DOWNLOAD_FAILED",
+          `HTTP ${res.status} fetching ${ref}`,
+          transient
+        );
+      }
+
+      const ext = extensionForResponse(new URL(res.url || ref), res.headers.get("content-type"));
+      if (!ext) {
+        throw new PrepareError("DOWNLOAD_FAILED", `Not an audio file (${res.headers.get("content-type")}): ${ref}`);
+      }
+
+      const total = Number(res.headers.get("content-length")) || 0;
+      const maxBytes = maxSourceSizeBytes();
+      const startedAt = Date.now();
+      let received = 0;
+      const counter = new Transform({
+        transform(chunk: Buffer, _enc, cb) {
+          received += chunk.length;
+          // Content-Length can be missing or wrong, so the limit is enforced on what actually arrives.
+          if (maxBytes !== null && received > maxBytes) {
+            cb(new PrepareError("SOURCE_TOO_LARGE", `${ref} exceeded ${maxBytes} bytes while downloading`, false));
+            return;
+          }
+          if (total > 0) {
+            const elapsed = (Date.now() - startedAt) / 1000;
+            const rate = elapsed > 0 ? received / elapsed : 0;
+            options.onProgress?.({
+              percent: Math.min(100, (received / total) * 100),
+              etaSeconds: rate > 0 ? Math.round((total - received) / rate) : null,
+            });
+          }
+          cb(null, chunk);
+        },
+      });
+
+      const outputPath = path.join(videoDir, `source${ext}`);
+      partPath = `${outputPath}.part`;
+      await pipeline(Readable.fromWeb(res.body), counter, fs.createWriteStream(partPath));
+      fs.renameSync(partPath, outputPath);
+      return { audioPath: outputPath, metadata: await probeAudioMetadata(outputPath) };
+    } catch (error) {
+      if (partPath) fs.rmSync(partPath, { force: true });
+      if (options.signal?.aborted) throw error;
+      if (error instanceof BlockedUrlError) throw new PrepareError("DOWNLOAD_FAILED", error.message, false);
+      if (timeout.aborted) {
+        throw new PrepareError("TIMEOUT", `Download timed out after ${URL_DOWNLOAD_TIMEOUT_MS}ms: ${ref}`, true, {
+          cause: error,
+        });
+      }
+      throw error;
+    }
+  },
+};
+
+// Resolve a library-relative path, refusing anything that escapes the library (.., symlinks).
+function resolveLibraryFile(ref: string): string {
+  if (!MEDIA_LIBRARY_DIR) throw new SourceRequestError("SOURCE_DISABLED", "No media library is configured");
+
+  const root = fs.realpathSync(MEDIA_LIBRARY_DIR);
+  const candidate = path.resolve(root, ref);
+  if (!fs.existsSync(candidate)) throw new SourceRequestError("SOURCE_NOT_FOUND", `Not found in library: ${ref}`);
+
+  const real = fs.realpathSync(candidate);
+  if (!real.startsWith(root + path.sep) || !fs.statSync(real).isFile()) {
+    throw new SourceRequestError("INVALID_SOURCE", `Not a library file: ${ref}`);
+  }
+  if (!audioExtension(real)) throw new SourceRequestError("INVALID_SOURCE", `Unsupported audio file: ${ref}`);
+  return real;
+}
+
+const librarySource: MediaSource = {
+  kind: "library",
+  stage: "Copying audio from the library",
+  remote: false,
+
+  resolve(ref) {
+    const file = resolveLibraryFile(ref);
+    const relative = path.relative(fs.realpathSync(MEDIA_LIBRARY_DIR as string), file);
+    return { videoId: hashedCacheId("lib", relative), ref: relative };
+  },
+
+  async probe(ref) {
+    return probeLocalFile(resolveLibraryFile(ref));
+  },
+
+  async fetch(videoId, ref, videoDir) {
+    const existing = findSourceAudio(videoDir);
+    if (existing) {
+      console.log(`[Cache Hit] ${videoId} already copied`);
+      return { audioPath: existing, metadata: {} };
+    }
+
+    let file: string;
+    try {
+      file = resolveLibraryFile(ref);
+    } catch (error) {
+      throw new PrepareError("SOURCE_MISSING", `Library file unavailable: ${ref}`, false, { cause: error });
+    }
+
+    const outputPath = path.join(videoDir, `source${audioExtension(file)}`);
+    try {
+      await fs.promises.copyFile(file, `${outputPath}.part`);
+      fs.renameSync(`${outputPath}.part`, outputPath);
+    } finally {
+      fs.rmSync(`${outputPath}.part`, { force: true });
+    }
+    return { audioPath: outputPath, metadata: await probeAudioMetadata(outputPath) };
+  },
+};
+
+// Uploads are stored by the upload route; the provider only finds them again.
+const uploadSource: MediaSource = {
+  kind: "upload",
+  stage: "Reading uploaded audio",
+  remote: false,
+
+  resolve() {
+    throw new SourceRequestError("UNSUPPORTED_SOURCE", "Upload files with POST /api/prepare/upload");
+  },
+
+  async probe() {
+    // The upload route checks the stored file itself (probeLocalFile); there is no reference to look up.
+    return {};
+  },
+
+  async fetch(videoId, _ref, videoDir) {
+    const existing = findSourceAudio(videoDir);
+    if (!existing) throw new PrepareError("SOURCE_MISSING", `No uploaded source found for ${videoId}`);
+    return { audioPath: existing, metadata: await probeAudioMetadata(existing) };
+  },
+};
+
+const MEDIA_SOURCES: Record<MediaSourceKind, MediaSource> = {
+  youtube: youtubeSource,
+  url: urlSource,
+  library: librarySource,
+  upload: uploadSource,
+};
+
+export function isMediaSourceKind(kind: unknown): kind is MediaSourceKind {
+  return typeof kind === "string" && Object.hasOwn(MEDIA_SOURCES, kind);
+}
+
+export function getMediaSource(kind: MediaSourceKind): MediaSource {
+  return MEDIA_SOURCES[kind];
+}
@@ -0,0 +1,109 @@
+import { ProcessError } from "./processRunner.js";
+
+export type PrepareStep = "download" | "separation";
+
+export type PrepareErrorCode =
+  | "TOOL_MISSING"
+  | "NETWORK"
+  | "VIDEO_UNAVAILABLE"
+  | "AGE_RESTRICTED"
+  | "DOWNLOAD_FAILED"
+  | "SEPARATION_FAILED"
+  | "TIMEOUT"
+  | "INTERRUPTED"
+  | "SOURCE_MISSING"
+  | "SOURCE_TOO_LARGE"
+  | "UNKNOWN";
+
+// What the singer sees; details stay in the server log.
+const USER_MESSAGES: Record<PrepareErrorCode, string> = {
+  TOOL_MISSING: "The server is missing a required audio tool. Please tell the host.",
+  NETWORK: "We couldn't reach YouTube. Please try again in a moment.",
+  VIDEO_UNAVAILABLE: "This video isn't available (private, removed or region-locked). Try another version.",
+  AGE_RESTRICTED: "This video is age-restricted and can't be prepared. Try another version.",
+  DOWNLOAD_FAILED: "We couldn't download this video. Try another version.",
+  SEPARATION_FAILED: "Something went wrong while removing the vocals. Please try again.",
+  TIMEOUT: "Preparing this song took too long. Try a shorter version.",
+  INTERRUPTED: "Preparing was interrupted too many times. Please try again.",
+  SOURCE_MISSING: "The original audio file is no longer available. Please add it again.",
+  SOURCE_TOO_LARGE: "This file is larger than sources are allowed to be. Try a shorter version.",
+  UNKNOWN: "Something went wrong while preparing this song.",
+};
+
+export class PrepareError extends Error {
+  readonly userMessage: string;
+
+  constructor(
+    readonly code: PrepareErrorCode,
+    message: string,
+    readonly retryable = false,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "PrepareError";
+    this.userMessage = USER_MESSAGES[code];
+  }
+}
+
+const AGE_RESTRICTED_RE = /confirm your age|age[- ]restricted|inappropriate for some users/i;
+const UNAVAILABLE_RE =
+  /video unavailable|private video|this video is not available|has been removed|members[- ]only|not available in your country|blocked it in your country|copyright/i;
+const NETWORK_RE =
+  /HTTP Error (?:429|5\d\d)|temporary failure|connection (?:reset|refused|aborted)|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|getaddrinfo|unable to download (?:webpage|API page)|read timed out|network is unreachable/i;
+// spawn() failures for a missing/non-executable binary, or a venv without the Python package.
+const SPAWN_FAILED_RE = /ENOENT|EACCES/;
+const PYTHON_MODULE_MISSING_RE = /No module named/i;
+
+// Collect messages and captured stderr along the `cause` chain so wrapped tool errors can still be classified.
+function describe(error: unknown): { text: string; process: ProcessError | null } {
+  const parts: string[] = [];
+  let processError: ProcessError | null = null;
+  let current: unknown = error;
+
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof ProcessError) {
+      processError = processError ?? current;
+      parts.push(current.stderr);
+    }
+    if (current instanceof Error) {
+      parts.push(current.message);
+      current = current.cause;
+    } else {
+      parts.push(String(current));
+      break;
+    }
+  }
+
+  return { text: parts.join("\n"), process: processError };
+}
+
+/**
+ * Map any failure from a prepare step onto a PrepareErrorCode. Transient
+ * classes (network hiccups, download timeouts) are marked retryable.
+ */
+export function classifyPrepareError(error: unknown, step: PrepareStep): PrepareError {
+  if (error instanceof PrepareError) return error;
+
+  const { text, process } = describe(error);
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (process?.timedOut) {
+    // A slow download may succeed next time; a separation that hit its limit will hit it again.
+    return new PrepareError("TIMEOUT", message, step === "download", { cause: error });
+  }
+  if (process && process.exitCode === null && !process.aborted && SPAWN_FAILED_RE.test(process.message)) {
+    return new PrepareError("TOOL_MISSING", message, false, { cause: error });
+  }
+  if (PYTHON_MODULE_MISSING_RE.test(text)) {
+    return new PrepareError("TOOL_MISSING", message, false, { cause: error });
+  }
+
+  if (step === "download") {
+    if (AGE_RESTRICTED_RE.test(text)) return new PrepareError("AGE_RESTRICTED", message, false, { cause: error });
+    if (UNAVAILABLE_RE.test(text)) return new PrepareError("VIDEO_UNAVAILABLE", message, false, { cause: error });
+    if (NETWORK_RE.test(text)) return new PrepareError("NETWORK", message, true, { cause: error });
+    return new PrepareError("DOWNLOAD_FAILED", message, false, { cause: error });
+  }
+
+  return new PrepareError("SEPARATION_FAILED", message, false, { cause: error });
+}
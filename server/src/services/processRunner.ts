@@ -0,0 +1,153 @@
+import { spawn } from "child_process";
+
+// Grace period between SIGTERM and SIGKILL when stopping a process group.
+const KILL_GRACE_MS = 5000;
+// Progress bars make stderr large; only the tail is useful in error messages.
+const STDERR_TAIL_CHARS = 64 * 1024;
+
+export interface RunProcessOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  cwd?: string;
+  // Called per output line; carriage returns count as line breaks so progress bars stream too.
+  onLine?: (line: string, stream: "stdout" | "stderr") => void;
+}
+
+export interface RunProcessResult {
+  stdout: string;
+  stderr: string;
+}
+
+// Progress reported by long-running tools (yt-dlp, Demucs), parsed from their output.
+export type ToolProgress = {
+  percent: number;
+  etaSeconds: number | null;
+};
+
+/**
+ * Parse "MM:SS" / "HH:MM:SS" clocks as printed by yt-dlp and tqdm.
+ */
+export function parseClockSeconds(raw: string): number | null {
+  const parts = raw.trim().split(":").map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some((n) => !Number.isFinite(n))) return null;
+  return parts.reduce((acc, n) => acc * 60 + n, 0);
+}
+
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    readonly command: string,
+    readonly exitCode: number | null,
+    readonly stderr: string,
+    readonly aborted: boolean,
+    readonly timedOut: boolean
+  ) {
+    super(message);
+    this.name = "ProcessError";
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ProcessError ? error.aborted : error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * Run a command with an argv array (no shell). The child gets its own process
+ * group so aborting also stops helpers it spawned (yt-dlp -> ffmpeg, Demucs workers).
+ */
+export function runProcess(command: string, args: string[], options: RunProcessOptions = {}): Promise<RunProcessResult> {
+  const { timeoutMs, signal, cwd, onLine } = options;
+  const label = `${command} ${args.join(" ")}`;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessError(`Aborted before start: ${label}`, label, null, "", true, false));
+      return;
+    }
+
+    const child = spawn(command, args, { cwd, detached: true, stdio: ["ignore", "pipe", "pipe"] });
+
+    let stdout = "";
+    let stderr = "";
+    let aborted = false;
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | null = null;
+
+    const pending = { stdout: "", stderr: "" };
+    const emitLines = (stream: "stdout" | "stderr", text: string, flush: boolean) => {
+      if (!onLine) return;
+      const parts = (pending[stream] + text).split(/\r\n|\r|\n/);
+      pending[stream] = flush ? "" : (parts.pop() ?? "");
+      for (const line of parts) {
+        if (line.trim()) onLine(line, stream);
+      }
+    };
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stdout += text;
+      emitLines("stdout", text, false);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderr = (stderr + text).slice(-STDERR_TAIL_CHARS);
+      emitLines("stderr", text, false);
+    });
+
+    const killGroup = (sig: NodeJS.Signals) => {
+      // Signal the whole group even if the leader already exited: its helpers may still be running.
+      if (child.pid === undefined) return;
+      try {
+        process.kill(-child.pid, sig);
+      } catch {
+        child.kill(sig);
+      }
+    };
+
+    const stop = () => {
+      killGroup("SIGTERM");
+      killTimer = setTimeout(() => killGroup("SIGKILL"), KILL_GRACE_MS);
+    };
+
+    const onAbort = () => {
+      aborted = true;
+      stop();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const timeoutTimer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          stop();
+        }, timeoutMs)
+      : null;
+
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+    };
+
+    child.on("error", (error) => {
+      finish();
+      reject(new ProcessError(`Failed to start ${command}: ${error.message}`, label, null, stderr, false, false));
+    });
+
+    child.on("close", (code, sig) => {
+      finish();
+      emitLines("stdout", "", true);
+      emitLines("stderr", "", true);
+      if (code === 0 && !aborted && !timedOut) {
+        resolve({ stdout, stderr });
+        return;
+      }
+
+      const reason = aborted
+        ? "aborted"
+        : timedOut
+          ? `timed out after ${timeoutMs}ms`
+          : `exited with ${code !== null ? `code ${code}` : `signal ${sig}`}`;
+      reject(new ProcessError(`Command ${reason}: ${label}\n${stderr.trim()}`, label, code, stderr, aborted, timedOut));
+    });
+  });
+}
@@ -0,0 +1,198 @@
+import path from "path";
+import fs from "fs";
+
+import { runProcess } from "./processRunner.js";
+import type { SeparationOptions, Separator, StemOutputs } from "./separator.js";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+
+// "false" separates whole files only, as before.
+const PROGRESSIVE_SEPARATION = process.env.PROGRESSIVE_SEPARATION !== "false";
+// The first chunk is what the singer waits for; later ones only have to stay ahead of playback.
+const FIRST_CHUNK_SECONDS = Number(process.env.PROGRESSIVE_FIRST_CHUNK_SECONDS || 45);
+const CHUNK_SECONDS = Number(process.env.PROGRESSIVE_CHUNK_SECONDS || 90);
+// Audio either side of a chunk so Demucs has context at the cut; trimmed off before stitching.
+const CHUNK_CONTEXT_SECONDS = Number(process.env.PROGRESSIVE_CONTEXT_SECONDS || 5);
+// Players may still be streaming a partial file when the full stems land.
+const PARTIAL_RETENTION_MS = Number(process.env.PROGRESSIVE_PARTIAL_RETENTION_MS || 10 * 60 * 1000);
+
+export type PartialStemName = "instrumental" | "vocals";
+
+/** Stems covering the first `readySeconds` of the song, republished under a new revision per chunk. */
+export type PartialStems = {
+  revision: number;
+  readySeconds: number;
+  totalSeconds: number;
+  instrumentalPath: string;
+  vocalsPath: string;
+};
+
+const PARTIAL_FILE_RE = /^(instrumental|vocals)\.partial(\d+)\.wav$/;
+
+// Pending cleanup of a finished run's partial files, per song dir. A new run for the same song
+// reuses the file names, so it cancels the old cleanup rather than have it delete what it streams.
+const partialCleanups = new Map<string, NodeJS.Timeout>();
+
+/**
+ * `instrumental.partial3.wav`: each revision is a new file, so a player streaming
+ * the previous one never sees it change underneath its Range requests.
+ */
+export function partialStemFileName(stem: PartialStemName, revision: number): string {
+  return `${stem}.partial${revision}.wav`;
+}
+
+/** Whether a song is long enough, and the backend suitable, for chunked separation. */
+export function canSeparateProgressively(
+  separator: Separator,
+  fourStems: boolean,
+  durationSeconds: number | undefined
+): durationSeconds is number {
+  // ffmpeg finishes in seconds anyway; four stems would need every band stitched and remixed per chunk.
+  if (!PROGRESSIVE_SEPARATION || separator.name !== "demucs" || fourStems) return false;
+  return Boolean(durationSeconds && durationSeconds > FIRST_CHUNK_SECONDS + CHUNK_SECONDS / 2);
+}
+
+function chunkWindows(durationSeconds: number): Array<{ start: number; end: number }> {
+  const windows: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  while (start < durationSeconds) {
+    const length = windows.length === 0 ? FIRST_CHUNK_SECONDS : CHUNK_SECONDS;
+    // Fold a short tail into the last chunk rather than paying a Demucs start-up for it.
+    const end = durationSeconds - (start + length) < CHUNK_SECONDS / 2 ? durationSeconds : start + length;
+    windows.push({ start, end });
+    start = end;
+  }
+  return windows;
+}
+
+// Decoding cut: -ss before -i is sample-accurate when transcoding, and fast.
+async function cutAudio(input: string, from: number, seconds: number | null, output: string, signal?: AbortSignal) {
+  const length = seconds === null ? [] : ["-t", seconds.toFixed(3)];
+  await runProcess(
+    FFMPEG_PATH,
+    ["-hide_banner", "-nostats", "-y", "-ss", from.toFixed(3), "-i", input, ...length, "-c:a", "pcm_s16le", output],
+    { timeoutMs: 120000, signal }
+  );
+}
+
+// Segments share Demucs's output format, so they are joined without re-encoding.
+async function concatAudio(segments: string[], output: string, workDir: string, signal?: AbortSignal) {
+  const list = path.join(workDir, "segments.txt");
+  fs.writeFileSync(list, segments.map((file) => `file '${file.replace(/'/g, "'\\''")}'`).join("\n"), "utf-8");
+  const partial = `${output}.part`;
+  try {
+    await runProcess(
+      FFMPEG_PATH,
+      ["-hide_banner", "-nostats", "-y", "-f", "concat", "-safe", "0", "-i", list, "-c", "copy", "-f", "wav", partial],
+      { timeoutMs: 120000, signal }
+    );
+    fs.renameSync(partial, output);
+  } finally {
+    fs.rmSync(partial, { force: true });
+  }
+}
+
+/** Remove partial revisions older than `keepFrom`; all of them when omitted. */
+export function removePartialStems(videoDir: string, keepFrom = Infinity) {
+  if (!fs.existsSync(videoDir)) return;
+  for (const name of fs.readdirSync(videoDir)) {
+    const m = name.match(PARTIAL_FILE_RE);
+    if (m && Number(m[2]) < keepFrom) fs.rmSync(path.join(videoDir, name), { force: true });
+  }
+}
+
+/**
+ * Separate in consecutive chunks (with context either side, trimmed back to the
+ * chunk's own window) and publish the stitched stems after each one, so playback
+ * can start once the first chunk is done. The full stems are written at the end.
+ */
+export async function separateProgressively(
+  separator: Separator,
+  model: string | null,
+  audioPath: string,
+  videoDir: string,
+  durationSeconds: number,
+  output: StemOutputs,
+  options: SeparationOptions
+): Promise<void> {
+  const workDir = path.join(videoDir, "progressive");
+  fs.rmSync(workDir, { recursive: true, force: true });
+  fs.mkdirSync(workDir, { recursive: true });
+  clearTimeout(partialCleanups.get(videoDir));
+  partialCleanups.delete(videoDir);
+  removePartialStems(videoDir);
+
+  const windows = chunkWindows(durationSeconds);
+  const segments: Record<PartialStemName, string[]> = { instrumental: [], vocals: [] };
+  const latest: Record<PartialStemName, string> = { instrumental: "", vocals: "" };
+  const { signal } = options;
+
+  try {
+    for (const [i, { start, end }] of windows.entries()) {
+      const from = Math.max(0, start - CHUNK_CONTEXT_SECONDS);
+      const to = Math.min(durationSeconds, end + CHUNK_CONTEXT_SECONDS);
+      const isLast = i === windows.length - 1;
+
+      const chunkAudio = path.join(workDir, `chunk${i}.wav`);
+      // The last chunk runs to the real end of the file; metadata durations are rounded.
+      await cutAudio(audioPath, from, isLast ? null : to - from, chunkAudio, signal);
+
+      const chunkStems = {
+        vocalsPath: path.join(workDir, `chunk${i}.vocals.wav`),
+        instrumentalPath: path.join(workDir, `chunk${i}.instrumental.wav`),
+      };
+      await separator.separate(chunkAudio, workDir, model, chunkStems, {
+        ...options,
+        durationSeconds: to - from,
+        onProgress: (progress) =>
+          options.onProgress?.({
+            percent: ((start + (progress.percent / 100) * (end - start)) / durationSeconds) * 100,
+            etaSeconds: null,
+          }),
+      });
+      fs.rmSync(chunkAudio, { force: true });
+
+      for (const stem of ["instrumental", "vocals"] as const) {
+        const segment = path.join(workDir, `segment${i}.${stem}.wav`);
+        const chunkFile = stem === "vocals" ? chunkStems.vocalsPath : chunkStems.instrumentalPath;
+        await cutAudio(chunkFile, start - from, isLast ? null : end - start, segment, signal);
+        fs.rmSync(chunkFile, { force: true });
+        segments[stem].push(segment);
+
+        latest[stem] = path.join(videoDir, partialStemFileName(stem, i + 1));
+        await concatAudio(segments[stem], latest[stem], workDir, signal);
+      }
+
+      // Keep the previous revision for players still switching over.
+      removePartialStems(videoDir, i);
+      console.log(
+        `[Separation] Chunk ${i + 1}/${windows.length} ready (${Math.round(end)}s of ${Math.round(durationSeconds)}s)`
+      );
+      await options.onPartial?.({
+        revision: i + 1,
+        readySeconds: end,
+        totalSeconds: durationSeconds,
+        instrumentalPath: latest.instrumental,
+        vocalsPath: latest.vocals,
+      });
+    }
+
+    // The last revision already covers the whole song; vocals land last so the pair only exists complete.
+    for (const [partial, target] of [
+      [latest.instrumental, output.instrumentalPath],
+      [latest.vocals, output.vocalsPath],
+    ]) {
+      fs.copyFileSync(partial, `${target}.part`);
+      fs.renameSync(`${target}.part`, target);
+    }
+  } finally {
+    for (const target of [output.instrumentalPath, output.vocalsPath]) fs.rmSync(`${target}.part`, { force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+    const cleanup = setTimeout(() => {
+      partialCleanups.delete(videoDir);
+      removePartialStems(videoDir);
+    }, PARTIAL_RETENTION_MS);
+    cleanup.unref();
+    partialCleanups.set(videoDir, cleanup);
+  }
+}
@@ -0,0 +1,118 @@
+import dns from "dns";
+import net from "net";
+import { Agent, fetch, type RequestInit, type Response } from "undici";
+
+// Hosts on the LAN that URL sources may still reach (e.g. a NAS serving music), comma-separated.
+const URL_SOURCE_ALLOWED_HOSTS = new Set(
+  (process.env.URL_SOURCE_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, CGNAT, ULA, multicast and reserved ranges: nothing a song should live on.
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 rules itself.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv6");
+}
+
+export class BlockedUrlError extends Error {
+  readonly code = "BLOCKED_URL";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, "ipv4");
+  if (family === 6) return BLOCKED_ADDRESSES.check(address, "ipv6");
+  return true;
+}
+
+function isAllowedHost(host: string): boolean {
+  return URL_SOURCE_ALLOWED_HOSTS.has(host.toLowerCase());
+}
+
+/**
+ * Refuse what can be judged from the URL alone: other protocols and literal internal IPs
+ * (which never go through a DNS lookup). Hostnames are checked by publicLookup as they connect.
+ */
+export function assertPublicUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedUrlError(`Only http(s) URLs are supported: ${url}`);
+  }
+  // URL keeps IPv6 literals bracketed.
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  if (net.isIP(host) && !isAllowedHost(host) && isBlockedAddress(host)) {
+    throw new BlockedUrlError(`Refusing to fetch ${url.host}: internal address`);
+  }
+}
+
+/**
+ * dns.lookup for the connections fetchPublicUrl opens: refuses hosts that resolve to an
+ * internal address. Checking the very answer the socket connects to means a host can't pass
+ * a separate check with a public IP and then be connected to on a private one (DNS rebinding).
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const blocked = isAllowedHost(hostname) ? undefined : addresses.find((a) => isBlockedAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      const reason = `resolves to internal address ${blocked?.address ?? "(none)"}`;
+      return callback(new BlockedUrlError(`Refusing to fetch ${hostname}: ${reason}`), "", 0);
+    }
+    // Happy-eyeballs connects ask for every address; plain ones for the first.
+    if (options.all) return (callback as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/** fetch() that only connects to public addresses, for the target and every redirect hop. */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = new URL(url);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(current);
+    let res: Response;
+    try {
+      res = await fetch(current, { ...init, redirect: "manual", dispatcher: publicAgent });
+    } catch (error) {
+      // undici reports connect failures as "fetch failed" with the lookup's error as the cause.
+      if (error instanceof TypeError && error.cause instanceof BlockedUrlError) throw error.cause;
+      throw error;
+    }
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location) return res;
+
+    await res.body?.cancel();
+    current = new URL(location, current);
+  }
+  throw new BlockedUrlError(`Too many redirects fetching ${url}`);
+}
@@ -0,0 +1,106 @@
+import path from "path";
+import fs from "fs";
+
+import { resolveCacheDir } from "./cachePaths.js";
+import { runProcess } from "./processRunner.js";
+import { BAND_STEMS, type BandStem } from "./separator.js";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const OPUS_BITRATE = process.env.OPUS_BITRATE || "128k";
+const AAC_BITRATE = process.env.AAC_BITRATE || "160k";
+
+export type StemName = "instrumental" | "vocals" | BandStem;
+export const STEM_NAMES: readonly StemName[] = ["instrumental", "vocals", ...BAND_STEMS];
+
+// Opus for everything that plays it, AAC for Safari versions that don't; WAV stays the master.
+export type RenditionFormat = "wav" | "opus" | "aac";
+
+const FORMAT_EXTENSIONS: Record<RenditionFormat, string> = {
+  wav: ".wav",
+  opus: ".opus",
+  aac: ".m4a",
+};
+
+const ENCODER_ARGS: Record<Exclude<RenditionFormat, "wav">, string[]> = {
+  opus: ["-c:a", "libopus", "-b:a", OPUS_BITRATE, "-f", "ogg"],
+  aac: ["-c:a", "aac", "-b:a", AAC_BITRATE, "-movflags", "+faststart", "-f", "mp4"],
+};
+
+/** URLs of one stem per format; compressed ones are null until encoded. */
+export type StemMedia = Record<RenditionFormat, string | null> & { wav: string };
+
+/** `vocals.opus`, `drums.wav`, ... as stored in the song's cache dir and served by the media route. */
+export function renditionFileName(stem: StemName, format: RenditionFormat): string {
+  return `${stem}${FORMAT_EXTENSIONS[format]}`;
+}
+
+// Stems in any format, plus the partial stems published during progressive separation.
+const MEDIA_FILE_RE = /^(?:(instrumental|vocals|drums|bass|other)\.(wav|opus|m4a)|(instrumental|vocals)\.partial\d+\.wav)$/;
+
+export function isMediaFileName(name: string): boolean {
+  return MEDIA_FILE_RE.test(name);
+}
+
+// A rendition older than its WAV (e.g. instrumental.wav remixed for four stems) is re-encoded.
+function isFresh(rendition: string, wav: string): boolean {
+  if (!fs.existsSync(rendition)) return false;
+  return fs.statSync(rendition).mtimeMs >= fs.statSync(wav).mtimeMs;
+}
+
+/**
+ * Encode Opus and AAC copies of every stem the song has. Existing up-to-date
+ * renditions are kept, so this is cheap to call again after a cache hit.
+ */
+export async function createRenditions(videoId: string, signal?: AbortSignal): Promise<number> {
+  const videoDir = resolveCacheDir(videoId);
+  let encoded = 0;
+
+  for (const stem of STEM_NAMES) {
+    const wav = path.join(videoDir, renditionFileName(stem, "wav"));
+    if (!fs.existsSync(wav)) continue;
+
+    for (const format of ["opus", "aac"] as const) {
+      const target = path.join(videoDir, renditionFileName(stem, format));
+      if (isFresh(target, wav)) continue;
+
+      // Written under a temporary name so the media route never serves half a file.
+      const partial = `${target}.part`;
+      try {
+        await runProcess(
+          FFMPEG_PATH,
+          ["-hide_banner", "-nostats", "-y", "-i", wav, "-vn", ...ENCODER_ARGS[format], partial],
+          { timeoutMs: 120000, signal }
+        );
+        fs.renameSync(partial, target);
+        encoded++;
+      } finally {
+        fs.rmSync(partial, { force: true });
+      }
+    }
+  }
+
+  if (encoded > 0) console.log(`[Renditions] ${videoId}: encoded ${encoded} file(s)`);
+  return encoded;
+}
+
+/**
+ * Media route URLs for every stem the song has, keyed by stem. WAV is always
+ * listed; Opus/AAC only once they are encoded and current.
+ */
+export function stemMediaUrls(videoId: string): Partial<Record<StemName, StemMedia>> {
+  const videoDir = resolveCacheDir(videoId);
+  const media: Partial<Record<StemName, StemMedia>> = {};
+
+  for (const stem of STEM_NAMES) {
+    const wav = path.join(videoDir, renditionFileName(stem, "wav"));
+    if (!fs.existsSync(wav)) continue;
+
+    const url = (format: RenditionFormat) => `/api/media/${videoId}/${renditionFileName(stem, format)}`;
+    const compressed = (format: "opus" | "aac") =>
+      isFresh(path.join(videoDir, renditionFileName(stem, format)), wav) ? url(format) : null;
+
+    media[stem] = { wav: url("wav"), opus: compressed("opus"), aac: compressed("aac") };
+  }
+
+  return media;
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+
+import { writeJsonAtomic } from "./atomicFile.js";
+import { statePath } from "./cachePaths.js";
+import type { YouTubeVideo } from "./youtube.js";
+
+// How long a query's results are served without asking YouTube again.
+const SEARCH_CACHE_TTL_MS = Number(process.env.SEARCH_CACHE_TTL_MINUTES || 6 * 60) * 60 * 1000;
+// Expired entries are still kept (for when the quota runs out) up to this many result pages.
+const SEARCH_CACHE_MAX_ENTRIES = Number(process.env.SEARCH_CACHE_MAX_ENTRIES || 500);
+const SEARCH_CACHE_PATH = process.env.SEARCH_CACHE_PATH || statePath("search-cache.json");
+
+type CachedSearch = { key: string; results: YouTubeVideo[]; nextPageToken: string | null; cachedAt: string };
+
+/** One page of a query: each page is cached on its own. */
+export type SearchPageKey = { query: string; pageToken: string | null; pageSize: number };
+
+export type SearchCacheHit = {
+  results: YouTubeVideo[];
+  nextPageToken: string | null;
+  cachedAt: string;
+  stale: boolean;
+};
+
+let entries: Map<string, CachedSearch> | null = null;
+
+/** "Let  it BE " and "let it be" are the same search. */
+export function normalizeSearchQuery(query: string): string {
+  return query.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Page tokens only make sense for the page size they were issued with, so both are part of the key.
+function cacheKey({ query, pageToken, pageSize }: SearchPageKey): string {
+  return [normalizeSearchQuery(query), pageSize, pageToken ?? ""].join("\u0000");
+}
+
+function load(): Map<string, CachedSearch> {
+  if (entries) return entries;
+  entries = new Map();
+  try {
+    const saved = JSON.parse(fs.readFileSync(SEARCH_CACHE_PATH, "utf-8")) as { searches?: CachedSearch[] };
+    for (const entry of saved.searches ?? []) {
+      if (!entry || typeof entry.key !== "string" || !Array.isArray(entry.results)) continue;
+      entries.set(entry.key, { ...entry, nextPageToken: entry.nextPageToken ?? null });
+    }
+  } catch {
+    // First run, or unreadable: start empty.
+  }
+  return entries;
+}
+
+function save(cache: Map<string, CachedSearch>) {
+  try {
+    writeJsonAtomic(SEARCH_CACHE_PATH, { version: 1, searches: [...cache.values()] });
+  } catch (error) {
+    console.warn("[Search] Failed to persist search cache:", error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Cached results for a page of a query. Expired ones are only returned with
+ * `allowStale`, for when YouTube can't be asked.
+ */
+export function getCachedSearch(page: SearchPageKey, options: { allowStale?: boolean } = {}): SearchCacheHit | null {
+  const entry = load().get(cacheKey(page));
+  if (!entry) return null;
+
+  const stale = Date.now() - Date.parse(entry.cachedAt) > SEARCH_CACHE_TTL_MS;
+  if (stale && !options.allowStale) return null;
+  return { results: entry.results, nextPageToken: entry.nextPageToken, cachedAt: entry.cachedAt, stale };
+}
+
+export function storeSearch(page: SearchPageKey, results: YouTubeVideo[], nextPageToken: string | null) {
+  const cache = load();
+  const key = cacheKey(page);
+  // Re-inserting moves the key to the end, so the Map's order is oldest-first.
+  cache.delete(key);
+  cache.set(key, { key, results, nextPageToken, cachedAt: new Date().toISOString() });
+  while (cache.size > SEARCH_CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+  save(cache);
+}
@@ -1,12 +1,13 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import path from "path";
 import fs from "fs";
 
-const execAsync = promisify(exec);
+import { resolveCacheDir } from "./cachePaths.js";
+import { separationLockKey, withKeyedLock } from "./locks.js";
+import { isAbortError, parseClockSeconds, runProcess, type ToolProgress } from "./processRunner.js";
+import { readSongMeta, updateSongMeta } from "./songMeta.js";
+import { canSeparateProgressively, separateProgressively, type PartialStems } from "./progressiveSeparation.js";
 
 const SERVER_ROOT = process.cwd(); // when running from ~/singsync/server
-const CACHE_DIR = path.join(SERVER_ROOT, "cache");
 
 // Prefer explicitly configured tool paths, otherwise try common locations.
 // 1) server/.venv/bin
@@ -17,80 +18,483 @@ const DEMUCS_PATH =
     ? path.join(SERVER_ROOT, ".venv", "bin", "demucs")
     : path.join(SERVER_ROOT, "..", ".venv", "bin", "demucs"));
 
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+
+// "auto" uses Demucs when it is installed and falls back to ffmpeg otherwise.
+const SEPARATOR_BACKEND = (process.env.SEPARATOR_BACKEND || "auto").toLowerCase();
+const DEMUCS_MODEL = process.env.DEMUCS_MODEL || "htdemucs";
+
+export type SeparatorName = "demucs" | "ffmpeg";
+
+// htdemucs_ft is ~4x slower than htdemucs for slightly cleaner vocals; mdx_extra is the older MDX-trained model.
+export const DEMUCS_MODELS = ["htdemucs", "htdemucs_ft", "mdx_extra"] as const;
+export type DemucsModel = (typeof DEMUCS_MODELS)[number];
+
+// Four-stem mode splits the instrumental further; instrumental.wav is still written (as their mix).
+export const BAND_STEMS = ["drums", "bass", "other"] as const;
+export type BandStem = (typeof BAND_STEMS)[number];
+
+/** Backend (and model, for Demucs) a job asked for; omitted fields fall back to the server config. */
+export type SeparatorChoice = {
+  backend?: SeparatorName;
+  model?: string;
+  // 4 = vocals/drums/bass/other (Demucs only); default 2 = vocals/instrumental.
+  stems?: 2 | 4;
+};
+
+export interface SeparationOptions {
+  // Aborting stops the backend and removes its partial output.
+  signal?: AbortSignal;
+  onProgress?: (progress: ToolProgress) => void;
+  separator?: SeparatorChoice;
+  // Called as chunked separation publishes longer partial stems; without it songs are separated whole.
+  onPartial?: (partial: PartialStems) => void | Promise<void>;
+}
+
 export interface SeparationResult {
   videoId: string;
   instrumentalPath: string;
   vocalsPath: string;
+  bands: Record<BandStem, string> | null;
 }
 
-/**
- * Separate vocals from audio using Demucs (two stems: vocals)
- */
-export async function separateVocals(videoId: string, audioPath: string): Promise<SeparationResult> {
-  const videoDir = path.join(CACHE_DIR, videoId);
-  const instrumentalPath = path.join(videoDir, "instrumental.wav");
-  const vocalsPath = path.join(videoDir, "vocals.wav");
+/** Where a backend writes its stems; `bands` is only set in four-stem mode. */
+export type StemOutputs = {
+  vocalsPath: string;
+  instrumentalPath: string;
+  bands?: Record<BandStem, string>;
+};
 
-  // Check cache
-  if (fs.existsSync(instrumentalPath) && fs.existsSync(vocalsPath)) {
-    console.log(`[Cache Hit] ${videoId} already separated`);
-    return { videoId, instrumentalPath, vocalsPath };
+export interface Separator {
+  readonly name: SeparatorName;
+  // Stage label shown while the backend runs.
+  readonly stage: string;
+  readonly supportsFourStems: boolean;
+  /** Whether the backend can run on this machine right now. */
+  isAvailable(): boolean;
+  /** Model used when the request and config don't name one; null for backends without models. */
+  defaultModel(): string | null;
+  /**
+   * Write every path in `output` from `audioPath`. Files must only appear once
+   * complete, since their presence marks the song as separated.
+   */
+  separate(
+    audioPath: string,
+    videoDir: string,
+    model: string | null,
+    output: StemOutputs,
+    options: SeparationOptions & { durationSeconds?: number }
+  ): Promise<void>;
+}
+
+export type SeparatorRequestErrorCode = "UNSUPPORTED_SEPARATOR" | "UNSUPPORTED_MODEL" | "UNSUPPORTED_STEMS";
+
+// A prepare request named a backend or model we don't offer; reported back as a 400.
+export class SeparatorRequestError extends Error {
+  constructor(
+    readonly code: SeparatorRequestErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SeparatorRequestError";
   }
+}
 
-  if (!fs.existsSync(videoDir)) {
-    fs.mkdirSync(videoDir, { recursive: true });
+function isDemucsModel(model: string): model is DemucsModel {
+  return (DEMUCS_MODELS as readonly string[]).includes(model);
+}
+
+function findOnPath(command: string): string | null {
+  for (const dir of (process.env.PATH || "").split(path.delimiter)) {
+    if (!dir) continue;
+    const candidate = path.join(dir, command);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // not here
+    }
   }
+  return null;
+}
 
-  // Validate demucs path early
-  const demucsExists = fs.existsSync(DEMUCS_PATH);
-  const demucsCmd = demucsExists ? `"${DEMUCS_PATH}"` : "demucs";
+function demucsCommand(): string | null {
+  if (fs.existsSync(DEMUCS_PATH)) return DEMUCS_PATH;
+  return findOnPath("demucs");
+}
+
+// Demucs reports through tqdm on stderr, e.g. " 45%|████▌     | 52.65/117.0 [00:13<00:15,  3.90seconds/s]"
+const DEMUCS_PROGRESS_RE = /(\d+(?:\.\d+)?)%\|.*?\[[^<\]]*<([^,\]]+)/;
 
-  if (!demucsExists) {
-    console.warn(
-      `[Separation] demucs not found at ${DEMUCS_PATH}. ` +
-        `Trying global "demucs" from PATH. If it fails, install demucs or set DEMUCS_PATH in server/.env`
+function parseDemucsProgress(line: string): ToolProgress | null {
+  const m = line.match(DEMUCS_PROGRESS_RE);
+  if (!m) return null;
+  const percent = Number(m[1]);
+  if (!Number.isFinite(percent)) return null;
+  return { percent, etaSeconds: parseClockSeconds(m[2]) };
+}
+
+/**
+ * instrumental.wav for four-stem songs: drums + bass + other summed back together,
+ * so playback, loudness and the two-stem player keep working unchanged.
+ */
+async function mixBands(bands: Record<BandStem, string>, instrumentalPath: string, signal?: AbortSignal) {
+  const partial = instrumentalPath.replace(/\.wav$/, ".part.wav");
+  const inputs = BAND_STEMS.flatMap((stem) => ["-i", bands[stem]]);
+  try {
+    await runProcess(
+      FFMPEG_PATH,
+      [
+        "-hide_banner",
+        "-nostats",
+        "-y",
+        ...inputs,
+        "-filter_complex",
+        `amix=inputs=${BAND_STEMS.length}:normalize=0`,
+        partial,
+      ],
+      { timeoutMs: 120000, signal }
     );
+    fs.renameSync(partial, instrumentalPath);
+  } finally {
+    fs.rmSync(partial, { force: true });
   }
+}
 
-  console.log(`[Separation] Starting Demucs for: ${videoId}`);
+const demucsSeparator: Separator = {
+  name: "demucs",
+  stage: "Separating vocals (this may take a few minutes)",
+  supportsFourStems: true,
 
-  try {
-    const outputDir = path.join(videoDir, "htdemucs");
-    const command = `${demucsCmd} --two-stems=vocals -o "${videoDir}" "${audioPath}"`;
+  isAvailable() {
+    return demucsCommand() !== null;
+  },
+
+  defaultModel() {
+    return isDemucsModel(DEMUCS_MODEL) ? DEMUCS_MODEL : "htdemucs";
+  },
+
+  async separate(audioPath, videoDir, model, output, options) {
+    const demucsCmd = demucsCommand();
+    if (!demucsCmd) {
+      console.warn(
+        `[Separation] demucs not found at ${DEMUCS_PATH} or in PATH. ` +
+          `Install demucs, set DEMUCS_PATH in server/.env or use SEPARATOR_BACKEND=ffmpeg`
+      );
+    }
+
+    const modelName = model ?? this.defaultModel() ?? "htdemucs";
+    // Demucs writes to <out>/<model>/<audio file name>/
+    const outputDir = path.join(videoDir, modelName);
+
+    try {
+      // Without --two-stems Demucs writes vocals/drums/bass/other.
+      const stemArgs = output.bands ? [] : ["--two-stems=vocals"];
+      const args = [...stemArgs, "-n", modelName, "-o", videoDir, audioPath];
+
+      console.log(`[Separation] Running: ${demucsCmd ?? "demucs"} ${args.join(" ")}`);
+      await runProcess(demucsCmd ?? "demucs", args, {
+        timeoutMs: 600000, // 10min
+        signal: options.signal,
+        onLine: (line) => {
+          const progress = parseDemucsProgress(line);
+          if (progress) options.onProgress?.(progress);
+        },
+      });
+
+      const demucsOutputDir = path.join(outputDir, path.parse(audioPath).name);
+      const stemNames = output.bands ? ["vocals", ...BAND_STEMS] : ["vocals", "no_vocals"];
+      const demucsFiles = stemNames.map((name) => path.join(demucsOutputDir, `${name}.wav`));
 
-    console.log(`[Separation] Running: ${command}`);
-    await execAsync(command, { timeout: 600000 }); // 10min
+      const missing = demucsFiles.filter((file) => !fs.existsSync(file));
+      if (missing.length > 0) {
+        throw new Error(`Demucs output missing. Expected: ${missing.join(" and ")}. Check demucs logs above.`);
+      }
 
-    // demucs creates: {outputDir}/source/vocals.wav and no_vocals.wav
-    const demucsOutputDir = path.join(outputDir, "source");
-    const demucsVocals = path.join(demucsOutputDir, "vocals.wav");
-    const demucsNoVocals = path.join(demucsOutputDir, "no_vocals.wav");
+      if (output.bands) {
+        const bands = output.bands;
+        BAND_STEMS.forEach((stem, i) => fs.renameSync(demucsFiles[i + 1], bands[stem]));
+        await mixBands(bands, output.instrumentalPath, options.signal);
+      } else {
+        fs.renameSync(demucsFiles[1], output.instrumentalPath);
+      }
+      // Last, so vocals + instrumental only both exist once everything else is in place.
+      fs.renameSync(demucsFiles[0], output.vocalsPath);
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  },
+};
+
+// Mid (L+R) keeps the centre-panned lead vocal; side (L-R) cancels it. The band-pass
+// trims bass and cymbals from the guide vocal, which is all mid/side can give us.
+const CENTER_CANCEL_FILTER =
+  "[0:a]aformat=channel_layouts=stereo,asplit=2[mid][side];" +
+  "[side]pan=stereo|c0=c0-c1|c1=c1-c0[instrumental];" +
+  "[mid]pan=stereo|c0=0.5*c0+0.5*c1|c1=0.5*c0+0.5*c1,highpass=f=150,lowpass=f=4000[vocals]";
+
+// With -progress pipe:1 ffmpeg prints key=value blocks, e.g. "out_time_us=52650000".
+const FFMPEG_PROGRESS_RE = /^out_time_us=(\d+)$/;
+
+/**
+ * Centre-channel cancellation: no model, runs anywhere ffmpeg does. Only removes
+ * vocals mixed dead centre, and mono sources come out (near) silent.
+ */
+const ffmpegSeparator: Separator = {
+  name: "ffmpeg",
+  stage: "Removing centre vocals",
+  supportsFourStems: false,
+
+  isAvailable() {
+    return FFMPEG_PATH.includes(path.sep) ? fs.existsSync(FFMPEG_PATH) : findOnPath(FFMPEG_PATH) !== null;
+  },
+
+  defaultModel() {
+    return null;
+  },
+
+  async separate(audioPath, videoDir, _model, output, options) {
+    // Written under temporary names so a cancelled run never looks like a finished separation.
+    const partialInstrumental = path.join(videoDir, "instrumental.part.wav");
+    const partialVocals = path.join(videoDir, "vocals.part.wav");
+    const { durationSeconds } = options;
+
+    try {
+      const args = [
+        "-hide_banner",
+        "-nostats",
+        "-y",
+        "-i",
+        audioPath,
+        "-filter_complex",
+        CENTER_CANCEL_FILTER,
+        "-map",
+        "[instrumental]",
+        "-ar",
+        "44100",
+        partialInstrumental,
+        "-map",
+        "[vocals]",
+        "-ar",
+        "44100",
+        partialVocals,
+        "-progress",
+        "pipe:1",
+      ];
+
+      console.log(`[Separation] Running: ${FFMPEG_PATH} ${args.join(" ")}`);
+      await runProcess(FFMPEG_PATH, args, {
+        timeoutMs: 300000,
+        signal: options.signal,
+        onLine: (line, stream) => {
+          if (stream !== "stdout" || !durationSeconds) return;
+          const m = line.match(FFMPEG_PROGRESS_RE);
+          if (!m) return;
+          const percent = Math.min(100, (Number(m[1]) / 1e6 / durationSeconds) * 100);
+          options.onProgress?.({ percent, etaSeconds: null });
+        },
+      });
+
+      fs.renameSync(partialVocals, output.vocalsPath);
+      fs.renameSync(partialInstrumental, output.instrumentalPath);
+    } finally {
+      fs.rmSync(partialInstrumental, { force: true });
+      fs.rmSync(partialVocals, { force: true });
+    }
+  },
+};
 
-    if (!fs.existsSync(demucsVocals) || !fs.existsSync(demucsNoVocals)) {
-      throw new Error(
-        `Demucs output missing. Expected: ${demucsVocals} and ${demucsNoVocals}. ` +
-          `Check demucs logs above.`
+const SEPARATORS: Record<SeparatorName, Separator> = {
+  demucs: demucsSeparator,
+  ffmpeg: ffmpegSeparator,
+};
+
+export function isSeparatorName(name: unknown): name is SeparatorName {
+  return typeof name === "string" && Object.hasOwn(SEPARATORS, name);
+}
+
+/**
+ * Validate a request's backend/model/stems fields. Nothing is resolved yet, so "auto"
+ * still follows whatever is installed when the job actually runs.
+ */
+export function parseSeparatorChoice(backend: unknown, model: unknown, stems?: unknown): SeparatorChoice {
+  const choice: SeparatorChoice = {};
+  if (backend !== undefined && backend !== null && backend !== "" && backend !== "auto") {
+    if (!isSeparatorName(backend)) {
+      throw new SeparatorRequestError("UNSUPPORTED_SEPARATOR", `Unknown separator: ${String(backend)}`);
+    }
+    choice.backend = backend;
+  }
+  if (model !== undefined && model !== null && model !== "") {
+    if (typeof model !== "string" || !isDemucsModel(model)) {
+      throw new SeparatorRequestError(
+        "UNSUPPORTED_MODEL",
+        `Unknown model: ${String(model)} (expected one of ${DEMUCS_MODELS.join(", ")})`
       );
     }
+    if (choice.backend === "ffmpeg") {
+      throw new SeparatorRequestError("UNSUPPORTED_MODEL", "The ffmpeg separator doesn't take a model");
+    }
+    choice.model = model;
+  }
+  if (stems !== undefined && stems !== null && stems !== "") {
+    // Multipart uploads send it as a string.
+    const count = Number(stems);
+    if (count !== 2 && count !== 4) {
+      throw new SeparatorRequestError("UNSUPPORTED_STEMS", `stems must be 2 or 4, got ${String(stems)}`);
+    }
+    if (count === 4 && choice.backend && !SEPARATORS[choice.backend].supportsFourStems) {
+      throw new SeparatorRequestError("UNSUPPORTED_STEMS", `The ${choice.backend} separator only produces two stems`);
+    }
+    choice.stems = count;
+  }
+  return choice;
+}
+
+/**
+ * The backend a job will run with: the request's choice, else SEPARATOR_BACKEND,
+ * else ("auto") Demucs when installed and ffmpeg otherwise. A model or four stems imply Demucs.
+ */
+export function getSeparator(choice: SeparatorChoice = {}): Separator {
+  const configured = isSeparatorName(SEPARATOR_BACKEND) ? SEPARATOR_BACKEND : null;
+  const requested = choice.backend ?? (choice.model || choice.stems === 4 ? "demucs" : configured);
+  if (requested) return SEPARATORS[requested];
+
+  if (demucsSeparator.isAvailable()) return demucsSeparator;
+  return ffmpegSeparator;
+}
+
+/** The backend, model and stem count a choice actually runs with once resolved against the server config. */
+function resolveChoice(choice: SeparatorChoice = {}): { backend: SeparatorName; model: string | null; stems: 2 | 4 } {
+  const separator = getSeparator(choice);
+  return {
+    backend: separator.name,
+    model: separator.name === "demucs" ? (choice.model ?? separator.defaultModel()) : null,
+    stems: choice.stems === 4 && separator.supportsFourStems ? 4 : 2,
+  };
+}
+
+/**
+ * Whether a job separating with `running` gives a request for `requested` what it asked for:
+ * at least as many stems, and the same backend and model when the request names either.
+ */
+export function separationCovers(running: SeparatorChoice = {}, requested: SeparatorChoice = {}): boolean {
+  const have = resolveChoice(running);
+  const want = resolveChoice(requested);
+  if (want.stems > have.stems) return false;
+  if (!requested.backend && !requested.model) return true;
+  return want.backend === have.backend && want.model === have.model;
+}
+
+/**
+ * Separate vocals from audio with the chosen backend and record it in meta.json.
+ * Serialized per videoId because backends write intermediate files into the song's directory.
+ */
+export async function separateVocals(
+  videoId: string,
+  audioPath: string,
+  options: SeparationOptions = {}
+): Promise<SeparationResult> {
+  return withKeyedLock(separationLockKey(videoId), () => separateVocalsUnlocked(videoId, audioPath, options));
+}
+
+async function separateVocalsUnlocked(
+  videoId: string,
+  audioPath: string,
+  options: SeparationOptions
+): Promise<SeparationResult> {
+  const videoDir = resolveCacheDir(videoId);
+  const instrumentalPath = path.join(videoDir, "instrumental.wav");
+  const vocalsPath = path.join(videoDir, "vocals.wav");
+  const stems = options.separator?.stems ?? 2;
+
+  // Check cache; a two-stem song asked for in four stems, or with another backend/model, is separated again.
+  if (isSeparated(videoId, options.separator)) {
+    console.log(`[Cache Hit] ${videoId} already separated`);
+    return { videoId, instrumentalPath, vocalsPath, bands: bandStemPaths(videoId) };
+  }
 
-    fs.renameSync(demucsVocals, vocalsPath);
-    fs.renameSync(demucsNoVocals, instrumentalPath);
+  if (!fs.existsSync(videoDir)) {
+    fs.mkdirSync(videoDir, { recursive: true });
+  }
 
-    // Cleanup
-    if (fs.existsSync(outputDir)) fs.rmSync(outputDir, { recursive: true, force: true });
+  const separator = getSeparator(options.separator);
+  const model = separator.name === "demucs" ? (options.separator?.model ?? separator.defaultModel()) : null;
+  const fourStems = stems === 4 && separator.supportsFourStems;
+  console.log(
+    `[Separation] Starting ${separator.name}${model ? ` (${model})` : ""}, ${fourStems ? 4 : 2} stems, for: ${videoId}`
+  );
 
-    console.log(`[Separation] Complete: ${videoId}`);
-    return { videoId, instrumentalPath, vocalsPath };
+  const bands = fourStems ? bandPaths(videoDir) : undefined;
+  if (!fourStems) {
+    // Band stems from an earlier separation wouldn't match the new vocals.
+    for (const band of Object.values(bandPaths(videoDir))) fs.rmSync(band, { force: true });
+  }
+  const durationSeconds = readSongMeta(videoId)?.durationSeconds;
+  const output = { vocalsPath, instrumentalPath, bands };
+
+  try {
+    if (options.onPartial && canSeparateProgressively(separator, fourStems, durationSeconds)) {
+      await separateProgressively(separator, model, audioPath, videoDir, durationSeconds, output, options);
+    } else {
+      await separator.separate(audioPath, videoDir, model, output, { ...options, durationSeconds });
+    }
   } catch (error) {
+    if (isAbortError(error)) {
+      console.log(`[Separation] Cancelled: ${videoId}`);
+      throw error;
+    }
     console.error("[Separation] Failed:", error);
-    throw new Error(`Failed to separate vocals: ${error}`);
+    throw new Error(`Failed to separate vocals: ${error}`, { cause: error });
   }
+
+  // null clears a model left by an earlier Demucs run, so separatedWith() can match ffmpeg stems.
+  updateSongMeta(videoId, { separator: separator.name, separatorModel: model });
+  console.log(`[Separation] Complete: ${videoId}`);
+  return { videoId, instrumentalPath, vocalsPath, bands: bands ?? null };
+}
+
+function bandPaths(videoDir: string): Record<BandStem, string> {
+  return Object.fromEntries(BAND_STEMS.map((stem) => [stem, path.join(videoDir, `${stem}.wav`)])) as Record<
+    BandStem,
+    string
+  >;
+}
+
+/** drums/bass/other for four-stem songs, null when the song only has two stems. */
+export function bandStemPaths(videoId: string): Record<BandStem, string> | null {
+  const paths = bandPaths(resolveCacheDir(videoId));
+  return BAND_STEMS.every((stem) => fs.existsSync(paths[stem])) ? paths : null;
 }
 
-export function isSeparated(videoId: string): boolean {
-  const videoDir = path.join(CACHE_DIR, videoId);
+/** Public URLs of the band stems, as served from /cache; null for two-stem songs. */
+export function bandStemUrls(videoId: string): Record<BandStem, string> | null {
+  if (!bandStemPaths(videoId)) return null;
+  return Object.fromEntries(BAND_STEMS.map((stem) => [stem, `/cache/${videoId}/${stem}.wav`])) as Record<
+    BandStem,
+    string
+  >;
+}
+
+/**
+ * Whether the song has stems `choice` is satisfied by: the vocals/instrumental pair, the band
+ * stems too for four stems, and the recorded backend/model when the choice names either.
+ */
+export function isSeparated(videoId: string, choice: SeparatorChoice = {}): boolean {
+  const videoDir = resolveCacheDir(videoId);
   return (
     fs.existsSync(path.join(videoDir, "instrumental.wav")) &&
-    fs.existsSync(path.join(videoDir, "vocals.wav"))
+    fs.existsSync(path.join(videoDir, "vocals.wav")) &&
+    (choice.stems !== 4 || bandStemPaths(videoId) !== null) &&
+    separatedWith(videoId, choice)
   );
 }
+
+// Songs separated before meta.json recorded the backend are taken as matching.
+function separatedWith(videoId: string, choice: SeparatorChoice): boolean {
+  if (!choice.backend && !choice.model) return true;
+  const meta = readSongMeta(videoId);
+  if (!meta?.separator) return true;
+  const want = resolveChoice(choice);
+  return meta.separator === want.backend && (meta.separatorModel ?? null) === want.model;
+}
@@ -0,0 +1,145 @@
+import path from "path";
+import fs from "fs";
+
+import { writeJsonAtomic } from "./atomicFile.js";
+import { resolveCacheDir } from "./cachePaths.js";
+import type { MediaMetadata, MediaSourceKind } from "./mediaSources.js";
+import type { SeparatorName } from "./separator.js";
+import type { StemQuality, StemQualityFlag } from "./stemQuality.js";
+
+/** Measured after separation; the player applies `gainDb` to both stems. */
+export type StemLoudness = {
+  instrumentalLufs: number;
+  vocalsLufs: number | null;
+  targetLufs: number;
+  gainDb: number;
+  // stemsWrittenAt() of the stems measured; stems written after it need measuring again.
+  stemsMtimeMs: number;
+};
+
+/**
+ * cache/<videoId>/meta.json. Media fields are filled in at download time,
+ * separator/separatorModel after separation, title/channelTitle/preparedAt when the job completes,
+ * lastPlayedAt whenever the song's stems are streamed.
+ */
+export type SongMeta = MediaMetadata & {
+  videoId: string;
+  source?: MediaSourceKind;
+  sourceRef?: string;
+  title?: string;
+  channelTitle?: string;
+  preparedAt?: string;
+  lastPlayedAt?: string;
+  // Backend that produced the stems, and the Demucs model when it was Demucs.
+  separator?: SeparatorName;
+  separatorModel?: string;
+  loudness?: StemLoudness;
+  quality?: StemQuality;
+};
+
+const STRING_FIELDS = [
+  "source",
+  "sourceRef",
+  "title",
+  "channelTitle",
+  "preparedAt",
+  "lastPlayedAt",
+  "separator",
+  "separatorModel",
+  "uploader",
+  "artist",
+  "track",
+  "album",
+  "thumbnail",
+  "language",
+] as const;
+
+function metaPath(videoId: string) {
+  return path.join(resolveCacheDir(videoId), "meta.json");
+}
+
+/** Parsed meta.json with unknown or mistyped fields dropped; null when missing or malformed. */
+export function readSongMeta(videoId: string): SongMeta | null {
+  const file = metaPath(videoId);
+  if (!fs.existsSync(file)) return null;
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, "utf-8")) as Record<string, unknown>;
+    const meta: Record<string, unknown> = { videoId };
+    for (const key of STRING_FIELDS) {
+      if (typeof raw[key] === "string" && (raw[key] as string).trim()) meta[key] = raw[key];
+    }
+    if (typeof raw.durationSeconds === "number" && raw.durationSeconds > 0) meta.durationSeconds = raw.durationSeconds;
+    const loudness = parseLoudness(raw.loudness);
+    if (loudness) meta.loudness = loudness;
+    const quality = parseQuality(raw.quality);
+    if (quality) meta.quality = quality;
+    return meta as SongMeta;
+  } catch {
+    return null;
+  }
+}
+
+function parseLoudness(raw: unknown): StemLoudness | null {
+  if (!raw || typeof raw !== "object") return null;
+  const l = raw as Record<string, unknown>;
+  if (typeof l.gainDb !== "number" || typeof l.instrumentalLufs !== "number") return null;
+  return {
+    instrumentalLufs: l.instrumentalLufs,
+    vocalsLufs: typeof l.vocalsLufs === "number" ? l.vocalsLufs : null,
+    targetLufs: typeof l.targetLufs === "number" ? l.targetLufs : 0,
+    gainDb: l.gainDb,
+    // 0 for measurements from before it was recorded: measured again on the next prepare.
+    stemsMtimeMs: typeof l.stemsMtimeMs === "number" ? l.stemsMtimeMs : 0,
+  };
+}
+
+const QUALITY_FLAGS: StemQualityFlag[] = ["SOURCE_INSTRUMENTAL", "VOCAL_BLEED", "SILENT_STEM"];
+
+function parseQuality(raw: unknown): StemQuality | null {
+  if (!raw || typeof raw !== "object") return null;
+  const q = raw as Record<string, unknown>;
+  if (!Array.isArray(q.flags) || typeof q.vocalsRmsDb !== "number" || typeof q.instrumentalRmsDb !== "number") {
+    return null;
+  }
+  const vocalBleed = typeof q.vocalBleed === "number" ? q.vocalBleed : null;
+  return {
+    // VOCAL_BLEED only counts with a vocalBleed measurement behind it; without one it is dropped.
+    flags: q.flags.filter(
+      (f): f is StemQualityFlag => QUALITY_FLAGS.includes(f) && (f !== "VOCAL_BLEED" || vocalBleed !== null)
+    ),
+    vocalsRmsDb: q.vocalsRmsDb,
+    instrumentalRmsDb: q.instrumentalRmsDb,
+    vocalBleed,
+    // 0 for verdicts from before it was recorded: re-checked on the next prepare.
+    stemsMtimeMs: typeof q.stemsMtimeMs === "number" ? q.stemsMtimeMs : 0,
+  };
+}
+
+/** Fields to change in meta.json: null removes a field. */
+export type SongMetaPatch = { [K in Exclude<keyof SongMeta, "videoId">]?: SongMeta[K] | null };
+
+/** Merge `patch` into meta.json; undefined values leave existing fields alone, null ones drop them. */
+export function updateSongMeta(videoId: string, patch: SongMetaPatch): SongMeta {
+  const dir = resolveCacheDir(videoId);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+  const next: Record<string, unknown> = { ...readSongMeta(videoId) };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  }
+  next.videoId = videoId;
+  writeJsonAtomic(metaPath(videoId), next);
+  return next as SongMeta;
+}
+
+/** "3:45" / "1:02:03"; "0:00" when unknown. */
+export function formatDuration(seconds: number | null | undefined): string {
+  if (!seconds || !Number.isFinite(seconds)) return "0:00";
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,333 @@
+import path from "path";
+import fs from "fs";
+import { createHash, randomBytes } from "crypto";
+import type { Writable } from "stream";
+import { pipeline } from "stream/promises";
+import multer from "multer";
+
+import { CACHE_DIR, isValidCacheId, resolveCacheDir } from "./cachePaths.js";
+import { checkWavHeader, sha256File, writeManifest } from "./cacheIntegrity.js";
+import { indexSong } from "./catalog.js";
+import { findActiveJobForVideo } from "./jobStore.js";
+import { renditionFileName, STEM_NAMES, type RenditionFormat } from "./renditions.js";
+import { readSongMeta } from "./songMeta.js";
+import { INCOMING_DIR } from "./uploads.js";
+
+const PACKAGE_MAX_MB = Number(process.env.PACKAGE_MAX_MB || 2048);
+
+const PACKAGE_FORMAT = "singsync-song";
+const PACKAGE_VERSION = 1;
+// First entry of every package; describes and checksums the rest.
+const PACKAGE_INDEX = "singsync-package.json";
+
+const FORMATS: readonly RenditionFormat[] = ["wav", "opus", "aac"];
+// Lyrics as shown (including the singer's chosen candidate), the captions and Whisper transcript they came from.
+const LYRICS_FILE_RE = /^(lyrics\.json|source\.json|captions(\.[^./]+)*\.vtt)$/i;
+
+const BLOCK = 512;
+
+export type PackageErrorCode = "NO_FILE" | "FILE_TOO_LARGE" | "INVALID_PACKAGE" | "NOT_PREPARED" | "EXISTS" | "IN_USE";
+
+export class PackageError extends Error {
+  constructor(
+    readonly code: PackageErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "PackageError";
+  }
+}
+
+type PackageIndex = {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  videoId: string;
+  title: string | null;
+  exportedAt: string;
+  files: Record<string, { size: number; sha256: string }>;
+};
+
+export const uploadPackage = multer({
+  dest: INCOMING_DIR,
+  limits: { fileSize: PACKAGE_MAX_MB * 1024 * 1024, files: 1 },
+}).single("package");
+
+/** Map multer's limit errors onto PackageError so the route answers with one shape. */
+export function toPackageError(error: unknown): PackageError | null {
+  if (error instanceof PackageError) return error;
+  if (error instanceof multer.MulterError) {
+    if (error.code === "LIMIT_FILE_SIZE") {
+      return new PackageError("FILE_TOO_LARGE", `Packages are limited to ${PACKAGE_MAX_MB} MB`);
+    }
+    return new PackageError("INVALID_PACKAGE", error.message);
+  }
+  return null;
+}
+
+function isPackageFileName(name: string): boolean {
+  if (name === "meta.json" || LYRICS_FILE_RE.test(name)) return true;
+  return STEM_NAMES.some((stem) => FORMATS.some((format) => renditionFileName(stem, format) === name));
+}
+
+/** File name for the download, e.g. "let-it-be.singsync.tar". */
+export function packageFileName(videoId: string): string {
+  const title = readSongMeta(videoId)?.title ?? "";
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[\s_]+/g, "-")
+    .toLowerCase()
+    .slice(0, 60);
+  return `${slug || videoId}.singsync.tar`;
+}
+
+// ---------- ustar, just enough for flat archives of regular files ----------
+
+function tarHeader(name: string, size: number, mtime: Date): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, "0") + "\0";
+  header.write(name, 0, 100, "utf-8");
+  header.write(octal(0o644, 8), 100, "ascii");
+  header.write(octal(0, 8), 108, "ascii");
+  header.write(octal(0, 8), 116, "ascii");
+  header.write(octal(size, 12), 124, "ascii");
+  header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, "ascii");
+  header.write("0", 156, "ascii");
+  header.write("ustar\0" + "00", 257, "ascii");
+  // The checksum is computed with its own field filled with spaces.
+  header.fill(" ", 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(octal(checksum, 7) + " ", 148, "ascii");
+  return header;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+function parseTarHeader(header: Buffer): { name: string; size: number; type: string } | null {
+  if (header.every((byte) => byte === 0)) return null;
+
+  const field = (start: number, length: number) =>
+    header.toString("utf-8", start, start + length).replace(/\0.*$/s, "");
+  const stored = parseInt(field(148, 8).trim(), 8);
+  const copy = Buffer.from(header);
+  copy.fill(" ", 148, 156);
+  if (copy.reduce((sum, byte) => sum + byte, 0) !== stored) {
+    throw new PackageError("INVALID_PACKAGE", "Not a song package (bad archive header)");
+  }
+
+  const size = parseInt(field(124, 12).trim(), 8);
+  if (!Number.isFinite(size) || size < 0) throw new PackageError("INVALID_PACKAGE", "Bad entry size in archive");
+  // ustar's prefix field would put the entry in a subdirectory.
+  if (field(345, 155)) throw new PackageError("INVALID_PACKAGE", "Packages hold no directories");
+  return { name: field(0, 100), size, type: field(156, 1) || "0" };
+}
+
+// ---------- export ----------
+
+async function* packageChunks(
+  videoDir: string,
+  names: string[],
+  files: PackageIndex["files"],
+  indexBytes: Buffer
+): AsyncGenerator<Buffer> {
+  yield tarHeader(PACKAGE_INDEX, indexBytes.length, new Date());
+  yield Buffer.concat([indexBytes, padding(indexBytes.length)]);
+
+  for (const name of names) {
+    const file = path.join(videoDir, name);
+    const { size, mtime } = fs.statSync(file);
+    // The index already promised this size; a file that changed since can't be sent consistently.
+    if (size !== files[name].size) throw new Error(`${name} changed while exporting`);
+    yield tarHeader(name, size, mtime);
+    for await (const chunk of fs.createReadStream(file)) yield chunk as Buffer;
+    yield padding(size);
+  }
+  // End of archive: two empty blocks.
+  yield Buffer.alloc(BLOCK * 2);
+}
+
+/**
+ * Stream a prepared song as a tar archive: an index with sizes and checksums,
+ * then meta.json, the lyrics files and every stem in every format it has.
+ */
+export async function exportSongPackage(videoId: string, out: Writable): Promise<void> {
+  const videoDir = resolveCacheDir(videoId);
+  const names = fs.existsSync(videoDir) ? fs.readdirSync(videoDir).filter(isPackageFileName).sort() : [];
+  if (!names.includes("instrumental.wav") || !names.includes("vocals.wav")) {
+    throw new PackageError("NOT_PREPARED", `${videoId} has no stems to export`);
+  }
+  if (findActiveJobForVideo(videoId)) throw new PackageError("IN_USE", `${videoId} is being prepared`);
+
+  const files: PackageIndex["files"] = {};
+  for (const name of names) {
+    const file = path.join(videoDir, name);
+    files[name] = { size: fs.statSync(file).size, sha256: await sha256File(file) };
+  }
+
+  const index: PackageIndex = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    videoId,
+    title: readSongMeta(videoId)?.title ?? null,
+    exportedAt: new Date().toISOString(),
+    files,
+  };
+  const indexBytes = Buffer.from(JSON.stringify(index, null, 2), "utf-8");
+  // pipeline tears the file streams down when the client goes away mid-download.
+  await pipeline(packageChunks(videoDir, names, files, indexBytes), out);
+  console.log(`[Package] Exported ${videoId} (${names.length} files)`);
+}
+
+// ---------- import ----------
+
+async function readExactly(input: fs.promises.FileHandle, buffer: Buffer, length: number) {
+  let read = 0;
+  while (read < length) {
+    const { bytesRead: n } = await input.read(buffer, read, length - read, null);
+    if (n === 0) throw new PackageError("INVALID_PACKAGE", "Package is truncated");
+    read += n;
+  }
+}
+
+// Copy one entry's bytes to `target`, hashing as it goes.
+async function extractEntry(input: fs.promises.FileHandle, size: number, target: string): Promise<string> {
+  const hash = createHash("sha256");
+  const out = await fs.promises.open(target, "w");
+  const chunk = Buffer.alloc(1024 * 1024);
+  try {
+    let remaining = size;
+    while (remaining > 0) {
+      const length = Math.min(remaining, chunk.length);
+      await readExactly(input, chunk, length);
+      hash.update(chunk.subarray(0, length));
+      await out.write(chunk, 0, length);
+      remaining -= length;
+    }
+  } finally {
+    await out.close();
+  }
+  const pad = (BLOCK - (size % BLOCK)) % BLOCK;
+  if (pad) await readExactly(input, Buffer.alloc(pad), pad);
+  return hash.digest("hex");
+}
+
+function parseIndex(raw: string): PackageIndex {
+  let index: PackageIndex;
+  try {
+    index = JSON.parse(raw) as PackageIndex;
+  } catch {
+    throw new PackageError("INVALID_PACKAGE", "Package index is not valid JSON");
+  }
+  if (index?.format !== PACKAGE_FORMAT) throw new PackageError("INVALID_PACKAGE", "Not a SingSync song package");
+  if (index.version !== PACKAGE_VERSION) {
+    throw new PackageError("INVALID_PACKAGE", `Unsupported package version ${index.version}`);
+  }
+  if (!isValidCacheId(index.videoId)) throw new PackageError("INVALID_PACKAGE", "Package has an invalid videoId");
+  if (!index.files || typeof index.files !== "object") {
+    throw new PackageError("INVALID_PACKAGE", "Package lists no files");
+  }
+  return index;
+}
+
+// Unpack into `stagingDir`, checking every entry against the index as it is written.
+async function unpack(packagePath: string, stagingDir: string): Promise<PackageIndex> {
+  const input = await fs.promises.open(packagePath, "r");
+  const header = Buffer.alloc(BLOCK);
+  let index: PackageIndex | null = null;
+  const seen = new Set<string>();
+
+  try {
+    for (;;) {
+      await readExactly(input, header, BLOCK);
+      const entry = parseTarHeader(header);
+      if (!entry) break;
+      if (entry.type !== "0") throw new PackageError("INVALID_PACKAGE", `Unexpected archive entry: ${entry.name}`);
+
+      if (!index) {
+        if (entry.name !== PACKAGE_INDEX) throw new PackageError("INVALID_PACKAGE", "Package index missing");
+        if (entry.size > 1024 * 1024) throw new PackageError("INVALID_PACKAGE", "Package index too large");
+        const target = path.join(stagingDir, PACKAGE_INDEX);
+        await extractEntry(input, entry.size, target);
+        index = parseIndex(fs.readFileSync(target, "utf-8"));
+        fs.rmSync(target);
+        continue;
+      }
+
+      const expected = index.files[entry.name];
+      if (!expected || !isPackageFileName(entry.name) || seen.has(entry.name)) {
+        throw new PackageError("INVALID_PACKAGE", `Unexpected file in package: ${entry.name}`);
+      }
+      const sha256 = await extractEntry(input, entry.size, path.join(stagingDir, entry.name));
+      if (entry.size !== expected.size || sha256 !== expected.sha256) {
+        throw new PackageError("INVALID_PACKAGE", `${entry.name} is damaged (checksum mismatch)`);
+      }
+      seen.add(entry.name);
+    }
+  } finally {
+    await input.close();
+  }
+
+  if (!index) throw new PackageError("INVALID_PACKAGE", "Package is empty");
+  const missing = Object.keys(index.files).filter((name) => !seen.has(name));
+  if (missing.length > 0) throw new PackageError("INVALID_PACKAGE", `Package is missing ${missing.join(", ")}`);
+  return index;
+}
+
+/**
+ * Validate a received package and install it as cache/<videoId>. An existing
+ * song is only overwritten with `replace`, and never while a job is preparing it.
+ */
+export async function importSongPackage(
+  packagePath: string,
+  options: { replace?: boolean } = {}
+): Promise<{ videoId: string; title: string | null; replaced: boolean }> {
+  const stagingDir = path.join(INCOMING_DIR, `pkg_${randomBytes(8).toString("hex")}`);
+  fs.mkdirSync(stagingDir, { recursive: true });
+
+  try {
+    const index = await unpack(packagePath, stagingDir);
+    const { videoId } = index;
+
+    for (const stem of ["instrumental.wav", "vocals.wav"]) {
+      if (!fs.existsSync(path.join(stagingDir, stem))) {
+        throw new PackageError("INVALID_PACKAGE", `Package has no ${stem}`);
+      }
+    }
+    for (const name of Object.keys(index.files).filter((n) => n.endsWith(".wav"))) {
+      const problem = checkWavHeader(path.join(stagingDir, name));
+      if (problem) throw new PackageError("INVALID_PACKAGE", `${name}: ${problem}`);
+    }
+    for (const name of Object.keys(index.files).filter((n) => n.endsWith(".json"))) {
+      try {
+        JSON.parse(fs.readFileSync(path.join(stagingDir, name), "utf-8"));
+      } catch {
+        throw new PackageError("INVALID_PACKAGE", `${name} is not valid JSON`);
+      }
+    }
+
+    if (findActiveJobForVideo(videoId)) throw new PackageError("IN_USE", `${videoId} is being prepared`);
+    const videoDir = resolveCacheDir(videoId);
+    const replaced = fs.existsSync(videoDir);
+    if (replaced && !options.replace) throw new PackageError("EXISTS", `${videoId} is already in the cache`);
+
+    // Same filesystem as cache/, so the swap is two renames.
+    if (replaced) fs.rmSync(videoDir, { recursive: true, force: true });
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    fs.renameSync(stagingDir, videoDir);
+
+    try {
+      await writeManifest(videoId);
+    } catch (error) {
+      console.warn(`[Package] Manifest not written for ${videoId}:`, error instanceof Error ? error.message : error);
+    }
+    indexSong(videoId);
+    console.log(`[Package] Imported ${videoId}${replaced ? " (replaced)" : ""}`);
+    return { videoId, title: index.title, replaced };
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+    fs.rmSync(packagePath, { force: true });
+  }
+}
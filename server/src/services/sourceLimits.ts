@@ -0,0 +1,51 @@
+import { formatDuration } from "./songMeta.js";
+
+// Demucs time grows with length; a 3-hour compilation would tie up a worker until its timeout.
+const MAX_SOURCE_DURATION_SECONDS = Number(process.env.MAX_SOURCE_DURATION_SECONDS || 15 * 60);
+const MAX_SOURCE_SIZE_MB = Number(process.env.MAX_SOURCE_SIZE_MB || 200);
+// Live streams never finish downloading; premieres/upcoming streams have nothing to download yet.
+const ALLOW_LIVE_STREAMS = process.env.ALLOW_LIVE_STREAMS === "true";
+
+export type SourceRejectionCode = "SOURCE_TOO_LONG" | "SOURCE_TOO_LARGE" | "LIVE_STREAM";
+
+/** What we know about a source before fetching it. Unknown facts are simply not checked. */
+export type SourceFacts = {
+  durationSeconds?: number;
+  sizeBytes?: number;
+  isLive?: boolean;
+};
+
+export class SourceRejectedError extends Error {
+  constructor(
+    readonly code: SourceRejectionCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "SourceRejectedError";
+  }
+}
+
+/**
+ * Throw a SourceRejectedError when the source breaks a configured limit.
+ * Messages are shown as-is on the selecting screen.
+ */
+export function checkSourceLimits(facts: SourceFacts): void {
+  if (facts.isLive && !ALLOW_LIVE_STREAMS) {
+    throw new SourceRejectedError("LIVE_STREAM", "Live streams can't be prepared. Pick a regular upload of the song.");
+  }
+  if (facts.durationSeconds && MAX_SOURCE_DURATION_SECONDS > 0 && facts.durationSeconds > MAX_SOURCE_DURATION_SECONDS) {
+    throw new SourceRejectedError(
+      "SOURCE_TOO_LONG",
+      `This is ${formatDuration(facts.durationSeconds)} long; songs are limited to ${formatDuration(MAX_SOURCE_DURATION_SECONDS)}.`
+    );
+  }
+  if (facts.sizeBytes && MAX_SOURCE_SIZE_MB > 0 && facts.sizeBytes > MAX_SOURCE_SIZE_MB * 1024 * 1024) {
+    const mb = Math.ceil(facts.sizeBytes / (1024 * 1024));
+    throw new SourceRejectedError("SOURCE_TOO_LARGE", `This file is ${mb} MB; sources are limited to ${MAX_SOURCE_SIZE_MB} MB.`);
+  }
+}
+
+/** Size cap for a source while it downloads, in bytes; null when MAX_SOURCE_SIZE_MB is 0 (no limit). */
+export function maxSourceSizeBytes(): number | null {
+  return MAX_SOURCE_SIZE_MB > 0 ? MAX_SOURCE_SIZE_MB * 1024 * 1024 : null;
+}
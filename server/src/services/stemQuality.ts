@@ -0,0 +1,126 @@
+import path from "path";
+
+import { findSourceAudio, resolveCacheDir, stemsWrittenAt } from "./cachePaths.js";
+import { runProcess } from "./processRunner.js";
+import { readSongMeta, updateSongMeta } from "./songMeta.js";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+
+// Below this a stem is treated as silence (dBFS RMS).
+const SILENT_RMS_DB = Number(process.env.STEM_SILENT_RMS_DB || -60);
+// Vocals this far under the instrumental mean the source had no singing to remove.
+const INSTRUMENTAL_SOURCE_DB = Number(process.env.STEM_INSTRUMENTAL_SOURCE_DB || -30);
+// Share of the vocal (amplitude, in the vocal band) still in the instrumental above which it's reported.
+// 0.3 is about -10 dB: clearly audible. How loud the backing itself is doesn't enter the estimate.
+const VOCAL_BLEED_SHARE = Number(process.env.STEM_VOCAL_BLEED_SHARE || 0.3);
+// astats prints -inf for digital silence; JSON can't hold that.
+const FLOOR_DB = -120;
+
+// Mid channel, band-limited to where the lead vocal lives.
+const VOCAL_BAND_FILTER = "pan=mono|c0=0.5*c0+0.5*c1,highpass=f=300,lowpass=f=3400";
+
+export type StemQualityFlag = "SOURCE_INSTRUMENTAL" | "VOCAL_BLEED" | "SILENT_STEM";
+
+/** Energy stats of the separated pair and what they suggest; stored in meta.json as `quality`. */
+export type StemQuality = {
+  flags: StemQualityFlag[];
+  vocalsRmsDb: number;
+  instrumentalRmsDb: number;
+  // Estimated share of the vocal left in the instrumental (see vocalBleedShare);
+  // null without the source mix or for non-Demucs stems.
+  vocalBleed: number | null;
+  // stemsWrittenAt() of the stems measured; a newer separation makes the verdict stale.
+  stemsMtimeMs: number;
+};
+
+/**
+ * Overall RMS level (dBFS) of a file via ffmpeg's astats, optionally after `filter`.
+ */
+async function measureRmsDb(file: string, filter: string | null, signal?: AbortSignal): Promise<number> {
+  const chain = filter ? `${filter},astats` : "astats";
+  const { stderr } = await runProcess(
+    FFMPEG_PATH,
+    ["-hide_banner", "-nostats", "-i", file, "-af", chain, "-f", "null", "-"],
+    { timeoutMs: 120000, signal }
+  );
+  // Per-channel blocks come first; the "Overall" block is the one we want.
+  const overall = stderr.slice(stderr.lastIndexOf("Overall"));
+  const m = overall.match(/RMS level dB:\s*(-?inf|-?\d+(?:\.\d+)?)/);
+  if (!m) throw new Error(`No RMS level in ffmpeg output for ${file}`);
+  const value = m[1].endsWith("inf") ? FLOOR_DB : Number(m[1]);
+  return Math.max(FLOOR_DB, value);
+}
+
+function round(value: number, decimals: number): number {
+  const scale = 10 ** decimals;
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * The mix is the sum of the stems, so in power terms M = I + V + 2<I,V>. If a share `a` of
+ * the vocal stayed in the instrumental, the cross term over the extracted vocals' power is
+ * a / (1 - a), whatever the backing does in the band; a clean split leaves it near 0.
+ */
+function vocalBleedShare(mixDb: number, instrumentalDb: number, vocalsDb: number): number | null {
+  if (vocalsDb < SILENT_RMS_DB) return null;
+  const power = (db: number) => 10 ** (db / 10);
+  const ratio = (power(mixDb) - power(instrumentalDb) - power(vocalsDb)) / (2 * power(vocalsDb));
+  return round(Math.max(0, ratio / (1 + ratio)), 2);
+}
+
+function qualityFlags(vocalsRmsDb: number, instrumentalRmsDb: number, vocalBleed: number | null): StemQualityFlag[] {
+  const flags: StemQualityFlag[] = [];
+  if (instrumentalRmsDb < SILENT_RMS_DB) flags.push("SILENT_STEM");
+
+  const noVocals = vocalsRmsDb < SILENT_RMS_DB || vocalsRmsDb - instrumentalRmsDb < INSTRUMENTAL_SOURCE_DB;
+  // A silent vocals stem is expected for an instrumental source, so it isn't reported twice.
+  if (noVocals && !flags.includes("SILENT_STEM")) flags.push("SOURCE_INSTRUMENTAL");
+  if (!noVocals && vocalBleed !== null && vocalBleed > VOCAL_BLEED_SHARE) flags.push("VOCAL_BLEED");
+  return flags;
+}
+
+/**
+ * Check the separated stems and store the verdict in meta.json. Heuristic: it
+ * catches instrumental uploads and failed separations, not subtle artefacts.
+ * Stems that were already checked are skipped until they are separated again.
+ */
+export async function analyzeStemQuality(videoId: string, signal?: AbortSignal): Promise<StemQuality> {
+  const videoDir = resolveCacheDir(videoId);
+  const stemsMtimeMs = stemsWrittenAt(videoDir);
+  const meta = readSongMeta(videoId);
+  const existing = meta?.quality;
+  if (existing && existing.stemsMtimeMs === stemsMtimeMs) return existing;
+
+  const vocals = path.join(videoDir, "vocals.wav");
+  const instrumental = path.join(videoDir, "instrumental.wav");
+
+  const vocalsRmsDb = round(await measureRmsDb(vocals, null, signal), 1);
+  const instrumentalRmsDb = round(await measureRmsDb(instrumental, null, signal), 1);
+
+  // Bleed needs the mix the stems came from; imported packages don't carry it. Only Demucs stems
+  // add up to the mix: ffmpeg's centre-cancel instrumental doesn't, so the estimate means nothing there.
+  let vocalBleed: number | null = null;
+  const source = findSourceAudio(videoDir);
+  if (source && meta?.separator === "demucs") {
+    const mixBandDb = await measureRmsDb(source, VOCAL_BAND_FILTER, signal);
+    const instrumentalBandDb = await measureRmsDb(instrumental, VOCAL_BAND_FILTER, signal);
+    const vocalsBandDb = await measureRmsDb(vocals, VOCAL_BAND_FILTER, signal);
+    vocalBleed = vocalBleedShare(mixBandDb, instrumentalBandDb, vocalsBandDb);
+  }
+
+  const quality: StemQuality = {
+    flags: qualityFlags(vocalsRmsDb, instrumentalRmsDb, vocalBleed),
+    vocalsRmsDb,
+    instrumentalRmsDb,
+    vocalBleed,
+    stemsMtimeMs,
+  };
+
+  updateSongMeta(videoId, { quality });
+  console.log(
+    `[Quality] ${videoId}: vocals ${vocalsRmsDb} dB, instrumental ${instrumentalRmsDb} dB, ` +
+      `vocal bleed ${vocalBleed ?? "n/a"}` +
+      (quality.flags.length ? ` -> ${quality.flags.join(", ")}` : "")
+  );
+  return quality;
+}
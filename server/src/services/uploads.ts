@@ -0,0 +1,67 @@
+import path from "path";
+import fs from "fs";
+import multer from "multer";
+
+import { CACHE_DIR, newUploadId, resolveCacheDir } from "./cachePaths.js";
+import { audioExtension } from "./mediaSources.js";
+
+const UPLOAD_MAX_MB = Number(process.env.UPLOAD_MAX_MB || 100);
+// Multer writes here first; same filesystem as the cache so moving the file is a rename.
+export const INCOMING_DIR = path.join(CACHE_DIR, ".incoming");
+
+export type UploadRejectionCode = "NO_FILE" | "UNSUPPORTED_FILE" | "FILE_TOO_LARGE";
+
+export class UploadRejectedError extends Error {
+  constructor(
+    readonly code: UploadRejectionCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+export const uploadAudio = multer({
+  dest: INCOMING_DIR,
+  limits: { fileSize: UPLOAD_MAX_MB * 1024 * 1024, files: 1 },
+  // Judged by extension; the browser's mimetype is only a hint.
+  fileFilter: (_req, file, cb) => {
+    if (audioExtension(file.originalname)) return cb(null, true);
+    cb(new UploadRejectedError("UNSUPPORTED_FILE", `Unsupported audio file: ${file.originalname}`));
+  },
+}).single("file");
+
+/**
+ * Map multer's own errors onto our rejection codes so the route can answer with one shape.
+ */
+export function toUploadRejection(error: unknown): UploadRejectedError | null {
+  if (error instanceof UploadRejectedError) return error;
+  if (error instanceof multer.MulterError) {
+    if (error.code === "LIMIT_FILE_SIZE") {
+      return new UploadRejectedError("FILE_TOO_LARGE", `Audio files are limited to ${UPLOAD_MAX_MB} MB`);
+    }
+    return new UploadRejectedError("UNSUPPORTED_FILE", error.message);
+  }
+  return null;
+}
+
+/**
+ * Move a received upload into a fresh cache dir as source.<ext> and return its id.
+ */
+export function storeUploadedAudio(file: Express.Multer.File): { videoId: string; audioPath: string } {
+  const ext = audioExtension(file.originalname);
+  if (!ext) {
+    fs.rmSync(file.path, { force: true });
+    throw new UploadRejectedError("UNSUPPORTED_FILE", `Unsupported audio file: ${file.originalname}`);
+  }
+
+  const videoId = newUploadId();
+  const videoDir = resolveCacheDir(videoId);
+  fs.mkdirSync(videoDir, { recursive: true });
+
+  const audioPath = path.join(videoDir, `source${ext}`);
+  fs.renameSync(file.path, audioPath);
+  console.log(`[Upload] Stored ${file.originalname} (${file.size} bytes) as ${videoId}`);
+
+  return { videoId, audioPath };
+}
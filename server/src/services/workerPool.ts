@@ -0,0 +1,103 @@
+type QueuedTask = {
+  taskId: string;
+  start: () => void;
+};
+
+export interface WorkerPool {
+  readonly name: string;
+  readonly concurrency: number;
+  /** Run `fn` once a slot is free. Tasks start in FIFO order; aborting drops a task that is still waiting. */
+  run<T>(taskId: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  /** 1-based position among waiting tasks, or null when the task is running or unknown. */
+  queuePosition(taskId: string): number | null;
+  /** Rough wait until the task starts, based on the average duration of finished tasks. */
+  estimatedWaitMs(taskId: string): number | null;
+  stats(): { running: number; queued: number; concurrency: number; averageTaskMs: number };
+}
+
+/**
+ * Bounded FIFO pool. `initialTaskMs` seeds the duration average used for wait
+ * estimates until real tasks have completed; `onQueueChange` fires whenever
+ * waiting positions may have shifted.
+ */
+export function createWorkerPool(
+  name: string,
+  concurrency: number,
+  initialTaskMs: number,
+  onQueueChange?: () => void
+): WorkerPool {
+  const limit = Number.isFinite(concurrency) && concurrency >= 1 ? Math.floor(concurrency) : 1;
+  const queue: QueuedTask[] = [];
+  let running = 0;
+  let averageTaskMs = initialTaskMs;
+
+  const startNext = () => {
+    let shifted = false;
+    while (running < limit && queue.length > 0) {
+      const next = queue.shift();
+      next?.start();
+      shifted = true;
+    }
+    if (shifted) onQueueChange?.();
+  };
+
+  const run = <T>(taskId: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const abortError = () => Object.assign(new Error(`Task ${taskId} cancelled`), { name: "AbortError" });
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const onAbort = () => {
+        const idx = queue.findIndex((t) => t.start === start);
+        if (idx < 0) return; // already running; the task itself watches the signal
+        queue.splice(idx, 1);
+        onQueueChange?.();
+        reject(abortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      const start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        running += 1;
+        const startedAt = Date.now();
+
+        fn()
+          .then(resolve, reject)
+          .finally(() => {
+            running -= 1;
+            // Exponential moving average keeps estimates responsive to recent songs.
+            averageTaskMs = Math.round(averageTaskMs * 0.7 + (Date.now() - startedAt) * 0.3);
+            startNext();
+          });
+      };
+
+      queue.push({ taskId, start });
+      startNext();
+
+      const position = queuePosition(taskId);
+      if (position !== null) console.log(`[Pool ${name}] ${taskId} queued at position ${position}`);
+    });
+
+  const queuePosition = (taskId: string): number | null => {
+    const idx = queue.findIndex((t) => t.taskId === taskId);
+    return idx >= 0 ? idx + 1 : null;
+  };
+
+  return {
+    name,
+    concurrency: limit,
+    run,
+    queuePosition,
+    estimatedWaitMs(taskId) {
+      const position = queuePosition(taskId);
+      if (position === null) return null;
+      // Each "round" of `limit` tasks ahead of us takes roughly one average task duration.
+      return Math.ceil(position / limit) * averageTaskMs;
+    },
+    stats() {
+      return { running, queued: queue.length, concurrency: limit, averageTaskMs };
+    },
+  };
+}
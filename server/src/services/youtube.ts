@@ -1,7 +1,15 @@
 import https from "https";
 
+import { queryCatalog, type CatalogEntry } from "./catalog.js";
+import { getCachedSearch, SearchPageKey, storeSearch } from "./searchCache.js";
+import { formatDuration } from "./songMeta.js";
+import { canSpendQuota, markQuotaExhausted, QUOTA_COSTS, recordQuotaSpend } from "./youtubeQuota.js";
+
 const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY || "";
 const YOUTUBE_API_BASE = "www.googleapis.com";
+export const DEFAULT_SEARCH_PAGE_SIZE = 10;
+// The Data API's own ceiling for search.list maxResults.
+export const MAX_SEARCH_PAGE_SIZE = 50;
 
 export interface YouTubeVideo {
   videoId: string;
@@ -29,6 +37,35 @@ interface YouTubeVideoDetails {
 
 type RankedVideo = YouTubeVideo & { __score: number; __idx: number };
 
+// Where a result list came from: live, the search cache (fresh or expired), songs prepared here, or placeholders.
+export type SearchSource = "youtube" | "cache" | "stale_cache" | "local" | "mock";
+
+export type SearchPageRequest = {
+  // Opaque token from a previous page's nextPageToken; omitted for the first page.
+  pageToken?: string | null;
+  pageSize?: number;
+};
+
+export type SearchOutcome = {
+  results: YouTubeVideo[];
+  // Null on the last page, and whenever results didn't come from YouTube or its cache.
+  nextPageToken: string | null;
+  source: SearchSource;
+  // When the cached results were fetched from YouTube.
+  cachedAt?: string;
+};
+
+export class YouTubeApiError extends Error {
+  constructor(
+    message: string,
+    // First error reason from the API, e.g. "quotaExceeded".
+    readonly reason: string | null
+  ) {
+    super(message);
+    this.name = "YouTubeApiError";
+  }
+}
+
 const TITLE_STRONG_KEYWORDS = [
   "karaoke version",
   "lyric video",
@@ -100,7 +137,10 @@ function makeRequest<T>(path: string): Promise<T> {
       res.on("end", () => {
         try {
           const json = JSON.parse(data);
-          if (json.error) reject(new Error(json.error.message || "YouTube API error"));
+          if (json.error) {
+            const reason = json.error.errors?.[0]?.reason ?? null;
+            reject(new YouTubeApiError(json.error.message || "YouTube API error", reason));
+          }
           else resolve(json);
         } catch (e) { reject(new Error("Failed to parse response")); }
       });
@@ -111,45 +151,125 @@ function makeRequest<T>(path: string): Promise<T> {
   });
 }
 
-export async function searchYouTube(query: string): Promise<YouTubeVideo[]> {
+// YouTube charges for every call it answers, errors included; calls that never reached it are free.
+async function chargedRequest<T>(path: string, units: number): Promise<T> {
+  try {
+    const data = await makeRequest<T>(path);
+    recordQuotaSpend(units);
+    return data;
+  } catch (error) {
+    if (error instanceof YouTubeApiError) recordQuotaSpend(units);
+    throw error;
+  }
+}
+
+/** One page of search results, ranked by singing readiness within the page. */
+async function fetchRankedPage(page: SearchPageKey): Promise<Pick<SearchOutcome, "results" | "nextPageToken">> {
+  const params = new URLSearchParams({
+    part: "snippet",
+    type: "video",
+    maxResults: String(page.pageSize),
+    q: page.query,
+    key: YOUTUBE_API_KEY,
+  });
+  if (page.pageToken) params.set("pageToken", page.pageToken);
+  const searchData = await chargedRequest<{ items: YouTubeSearchItem[]; nextPageToken?: string }>(
+    `/youtube/v3/search?${params}`,
+    QUOTA_COSTS.search
+  );
+  const nextPageToken = searchData.nextPageToken ?? null;
+  if (!searchData.items?.length) return { results: [], nextPageToken: null };
+  const videoIds = searchData.items.map((item) => item.id.videoId).join(",");
+  const detailsPath = `/youtube/v3/videos?part=contentDetails&id=${videoIds}&key=${YOUTUBE_API_KEY}`;
+  const detailsData = await chargedRequest<{ items: YouTubeVideoDetails[] }>(detailsPath, QUOTA_COSTS.videos);
+  const durationMap = new Map<string, string>();
+  detailsData.items?.forEach((item) => durationMap.set(item.id, parseDuration(item.contentDetails.duration)));
+  const mapped = searchData.items.map((item) => ({
+    videoId: item.id.videoId,
+    title: item.snippet.title,
+    thumbnail: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url || "",
+    duration: durationMap.get(item.id.videoId) || "0:00",
+    channelTitle: item.snippet.channelTitle,
+    publishedAt: item.snippet.publishedAt,
+  }));
+
+  // Reorder by lightweight singing-readiness score without dropping any result.
+  const ranked: RankedVideo[] = mapped.map((v, idx) => ({
+    ...v,
+    __score: scoreSingingReadiness(v),
+    __idx: idx,
+  }));
+
+  ranked.sort((a, b) => {
+    if (b.__score !== a.__score) return b.__score - a.__score;
+    return a.__idx - b.__idx; // preserve API relevance order when score ties
+  });
+
+  return { results: ranked.map(({ __score: _score, __idx: _idx, ...video }) => video), nextPageToken };
+}
+
+/** A prepared song in the shape of a search result. */
+export function catalogVideo(entry: CatalogEntry): YouTubeVideo {
+  return {
+    videoId: entry.videoId,
+    title: entry.title,
+    thumbnail: entry.meta.thumbnail ?? "",
+    duration: formatDuration(entry.meta.durationSeconds),
+    channelTitle: entry.channelTitle,
+    publishedAt: entry.preparedAt,
+  };
+}
+
+// YouTube songs already prepared here whose title/channel/artist match the query.
+function localResults(query: string, limit: number): YouTubeVideo[] {
+  return queryCatalog({ q: query, source: "youtube", limit }).items.map(catalogVideo);
+}
+
+// When YouTube can't be asked: expired cached results for the page, else (first page only) what we have locally.
+function offlineResults(page: SearchPageKey): SearchOutcome {
+  const stale = getCachedSearch(page, { allowStale: true });
+  if (stale) {
+    const { results, nextPageToken, cachedAt } = stale;
+    return { results, nextPageToken, source: "stale_cache", cachedAt };
+  }
+  const results = page.pageToken ? [] : localResults(page.query, page.pageSize);
+  return { results, nextPageToken: null, source: "local" };
+}
+
+/**
+ * Search YouTube one page at a time, answering repeated pages from the search
+ * cache and degrading to cached or local results once the day's quota is spent.
+ */
+export async function searchYouTube(query: string, request: SearchPageRequest = {}): Promise<SearchOutcome> {
+  const page: SearchPageKey = {
+    query,
+    pageToken: request.pageToken || null,
+    pageSize: Math.max(1, Math.min(Math.floor(request.pageSize ?? DEFAULT_SEARCH_PAGE_SIZE), MAX_SEARCH_PAGE_SIZE)),
+  };
+
   if (!YOUTUBE_API_KEY) {
     console.warn("YOUTUBE_API_KEY not set, returning mock data");
-    return getMockResults(query);
+    return { results: page.pageToken ? [] : getMockResults(query), nextPageToken: null, source: "mock" };
   }
-  try {
-    const searchPath = `/youtube/v3/search?part=snippet&type=video&maxResults=10&q=${encodeURIComponent(query)}&key=${YOUTUBE_API_KEY}`;
-    const searchData = await makeRequest<{ items: YouTubeSearchItem[] }>(searchPath);
-    if (!searchData.items?.length) return [];
-    const videoIds = searchData.items.map((item) => item.id.videoId).join(",");
-    const detailsPath = `/youtube/v3/videos?part=contentDetails&id=${videoIds}&key=${YOUTUBE_API_KEY}`;
-    const detailsData = await makeRequest<{ items: YouTubeVideoDetails[] }>(detailsPath);
-    const durationMap = new Map<string, string>();
-    detailsData.items?.forEach((item) => durationMap.set(item.id, parseDuration(item.contentDetails.duration)));
-    const mapped = searchData.items.map((item) => ({
-      videoId: item.id.videoId,
-      title: item.snippet.title,
-      thumbnail: item.snippet.thumbnails.medium?.url || item.snippet.thumbnails.default?.url || "",
-      duration: durationMap.get(item.id.videoId) || "0:00",
-      channelTitle: item.snippet.channelTitle,
-      publishedAt: item.snippet.publishedAt,
-    }));
-
-    // Reorder by lightweight singing-readiness score without dropping any result.
-    const ranked: RankedVideo[] = mapped.map((v, idx) => ({
-      ...v,
-      __score: scoreSingingReadiness(v),
-      __idx: idx,
-    }));
-
-    ranked.sort((a, b) => {
-      if (b.__score !== a.__score) return b.__score - a.__score;
-      return a.__idx - b.__idx; // preserve API relevance order when score ties
-    });
 
-    return ranked.map(({ __score: _score, __idx: _idx, ...video }) => video);
+  const cached = getCachedSearch(page);
+  if (cached) {
+    return { results: cached.results, nextPageToken: cached.nextPageToken, source: "cache", cachedAt: cached.cachedAt };
+  }
+
+  if (!canSpendQuota(QUOTA_COSTS.search + QUOTA_COSTS.videos)) {
+    console.warn(`[Quota] Daily YouTube quota spent, answering "${query}" offline`);
+    return offlineResults(page);
+  }
+
+  try {
+    const { results, nextPageToken } = await fetchRankedPage(page);
+    storeSearch(page, results, nextPageToken);
+    return { results, nextPageToken, source: "youtube" };
   } catch (error) {
+    if (error instanceof YouTubeApiError && error.reason === "quotaExceeded") markQuotaExhausted();
     console.error("YouTube API error:", error);
-    return getMockResults(query);
+    return offlineResults(page);
   }
 }
 
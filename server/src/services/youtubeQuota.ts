@@ -0,0 +1,84 @@
+import fs from "fs";
+
+import { writeJsonAtomic } from "./atomicFile.js";
+import { statePath } from "./cachePaths.js";
+
+// Units per day granted to the API key (10,000 is YouTube's default allocation).
+const YOUTUBE_DAILY_QUOTA = Number(process.env.YOUTUBE_DAILY_QUOTA || 10000);
+const QUOTA_STATE_PATH = process.env.YOUTUBE_QUOTA_PATH || statePath("youtube-quota.json");
+// YouTube resets quotas at midnight Pacific time.
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+
+/** Cost in quota units of the Data API calls we make. */
+export const QUOTA_COSTS = {
+  search: 100,
+  videos: 1,
+} as const;
+
+export type QuotaStatus = {
+  day: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  // Set when YouTube itself answered quotaExceeded, whatever our own count says.
+  exhausted: boolean;
+};
+
+type QuotaState = { day: string; used: number; exhausted: boolean };
+
+let state: QuotaState | null = null;
+
+function quotaDay(now = new Date()): string {
+  // en-CA formats as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", { timeZone: QUOTA_TIME_ZONE }).format(now);
+}
+
+function currentState(): QuotaState {
+  const day = quotaDay();
+  if (!state) {
+    try {
+      const saved = JSON.parse(fs.readFileSync(QUOTA_STATE_PATH, "utf-8")) as Partial<QuotaState>;
+      if (typeof saved.day === "string" && typeof saved.used === "number") {
+        state = { day: saved.day, used: saved.used, exhausted: saved.exhausted === true };
+      }
+    } catch {
+      // No meter yet, or unreadable: start counting from zero.
+    }
+  }
+  if (!state || state.day !== day) state = { day, used: 0, exhausted: false };
+  return state;
+}
+
+function save(next: QuotaState) {
+  try {
+    writeJsonAtomic(QUOTA_STATE_PATH, next);
+  } catch (error) {
+    console.warn("[Quota] Failed to persist YouTube quota meter:", error instanceof Error ? error.message : error);
+  }
+}
+
+export function quotaStatus(): QuotaStatus {
+  const { day, used, exhausted } = currentState();
+  const remaining = exhausted ? 0 : Math.max(0, YOUTUBE_DAILY_QUOTA - used);
+  return { day, used, limit: YOUTUBE_DAILY_QUOTA, remaining, exhausted };
+}
+
+export function canSpendQuota(units: number): boolean {
+  return quotaStatus().remaining >= units;
+}
+
+/** Count units as spent. Failed calls count too: YouTube charges for them. */
+export function recordQuotaSpend(units: number) {
+  const current = currentState();
+  current.used += units;
+  save(current);
+}
+
+/** YouTube said quotaExceeded: stop calling it until the day rolls over. */
+export function markQuotaExhausted() {
+  const current = currentState();
+  if (current.exhausted) return;
+  current.exhausted = true;
+  save(current);
+  console.warn(`[Quota] YouTube quota exhausted for ${current.day} (${current.used} units counted)`);
+}
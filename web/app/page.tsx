@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { io, type Socket } from "socket.io-client";
 
 const API_BASE = (process.env.NEXT_PUBLIC_API_BASE || "").replace(/\/$/, "");
 
@@ -9,6 +10,13 @@ function apiUrl(path: string): string {
   return API_BASE ? `${API_BASE}${path}` : path;
 }
 
+// Extra stems of songs prepared in four-stem mode; instrumental = drums + bass + other.
+type BandStem = "drums" | "bass" | "other";
+type BandStems = Record<BandStem, string>;
+// Streaming URLs per stem from /api/media; compressed renditions are null until the server encoded them.
+type StemMedia = { wav: string; opus: string | null; aac: string | null };
+type StemMediaMap = Partial<Record<"instrumental" | "vocals" | BandStem, StemMedia>>;
+
 type Song = {
   id: string;
   title: string;
@@ -16,6 +24,10 @@ type Song = {
   channelTitle?: string;
   instrumentalUrl?: string;
   vocalsUrl?: string;
+  gainDb?: number | null;
+  stems?: BandStems | null;
+  media?: StemMediaMap;
+  quality?: { flags: string[] } | null;
 };
 type Phase = "browse" | "selecting" | "preparing" | "countdown" | "singing" | "post_song";
 type LyricLine = { t: number; text: string };
@@ -30,18 +42,47 @@ interface YouTubeResult {
   duration: string;
   channelTitle: string;
   publishedAt: string;
+  // Already prepared here: the stem fields below are set and the song can be sung right away.
+  prepared?: boolean;
+  instrumentalUrl?: string;
+  vocalsUrl?: string;
+  preparedAt?: string;
+  gainDb?: number | null;
+  stems?: BandStems | null;
+  media?: StemMediaMap;
 }
 
+type SearchSource = "youtube" | "cache" | "stale_cache" | "local" | "mock";
+
 interface JobStatus {
   jobId: string;
-  status: "pending" | "downloading" | "separating" | "complete" | "error";
+  videoId?: string;
+  status: "pending" | "queued" | "downloading" | "separating" | "complete" | "error" | "cancelled";
   progress: number;
   stage: string;
+  stageProgress?: number | null;
+  etaSeconds?: number | null;
   error?: string;
+  errorCode?: string;
+  queuePosition?: number | null;
+  estimatedWaitSeconds?: number | null;
   result?: {
     instrumentalUrl: string;
     vocalsUrl: string;
+    // Loudness-normalizing playback gain for both stems
+    gainDb?: number | null;
+    stems?: BandStems | null;
+    media?: StemMediaMap;
   };
+  // Progressive separation: stems for the first readySeconds, replaced by a longer revision per chunk
+  partial?: {
+    revision: number;
+    readySeconds: number;
+    totalSeconds: number;
+    instrumentalUrl: string;
+    vocalsUrl: string;
+    gainDb?: number | null;
+  } | null;
 }
 
 interface LyricsApiResponse {
@@ -73,6 +114,12 @@ type RecentItem = {
   instrumentalUrl: string;
   vocalsUrl: string;
   preparedAt: string;
+  duration?: string | null;
+  artist?: string | null;
+  gainDb?: number | null;
+  stems?: BandStems | null;
+  media?: StemMediaMap;
+  quality?: { flags: string[] } | null;
 };
 
 function parseLrc(text: string): LyricLine[] {
@@ -125,10 +172,89 @@ function formatTimeAgo(iso: string) {
   return `${d}d ago`;
 }
 
+// Results per search page; every page (including "Load more") costs a YouTube search call.
+const SEARCH_PAGE_SIZE = 10;
+
+// Prepare rejections from the server's source guardrails; shown on the search result instead of the error card.
+const SOURCE_REJECTION_CODES = ["SOURCE_TOO_LONG", "SOURCE_TOO_LARGE", "LIVE_STREAM"];
+
+// Stem quality verdicts from the server's post-separation check
+const QUALITY_LABELS: Record<string, string> = {
+  SOURCE_INSTRUMENTAL: "Already instrumental: there were no vocals to remove",
+  VOCAL_BLEED: "Vocals may still be audible in the backing track",
+  SILENT_STEM: "Separation came out silent; try another version",
+};
+
+// Only YouTube ids have a video to embed; uploads, URLs and library files get generated ids (upl_/url_/lib_).
+function isYouTubeId(id: string) {
+  return /^[A-Za-z0-9_-]{11}$/.test(id);
+}
+
+// Element volume can't exceed 1, so positive gains play at full volume; the server targets a level that rarely needs them.
+function gainToVolume(gainDb: number | null | undefined) {
+  if (gainDb == null || !Number.isFinite(gainDb)) return 1;
+  return Math.min(1, Math.pow(10, gainDb / 20));
+}
+
+const BAND_STEMS: Array<{ stem: BandStem; label: string }> = [
+  { stem: "drums", label: "Drums" },
+  { stem: "bass", label: "Bass" },
+  { stem: "other", label: "Other (keys, guitar…)" },
+];
+
+// `el.src` resolves "" to the page URL, so check the attribute for "has a track".
+function hasTrack(el: HTMLAudioElement | null): el is HTMLAudioElement {
+  return Boolean(el?.getAttribute("src"));
+}
+
+// Opus/AAC renditions are a fraction of the WAV size; use the first one this browser can play.
+function pickStemUrl(media: StemMediaMap | undefined, stem: keyof StemMediaMap, fallback: string) {
+  const m = media?.[stem];
+  if (!m) return fallback;
+  const probe = document.createElement("audio");
+  if (m.opus && probe.canPlayType('audio/ogg; codecs="opus"')) return m.opus;
+  if (m.aac && probe.canPlayType('audio/mp4; codecs="mp4a.40.2"')) return m.aac;
+  return m.wav;
+}
+
+function formatClock(seconds: number) {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function ordinal(n: number) {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  if (n % 10 === 1) return `${n}st`;
+  if (n % 10 === 2) return `${n}nd`;
+  if (n % 10 === 3) return `${n}rd`;
+  return `${n}th`;
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60) return "less than a minute";
+  const m = Math.round(seconds / 60);
+  return m === 1 ? "about 1 min" : `about ${m} min`;
+}
+
 export default function Page() {
   // 2-track audio mixing
   const instrumentalRef = useRef<HTMLAudioElement | null>(null);
   const vocalsRef = useRef<HTMLAudioElement | null>(null);
+  // Four-stem songs: instrumentalRef plays the "other" stem (and stays the clock), these play the rest
+  const drumsRef = useRef<HTMLAudioElement | null>(null);
+  const bassRef = useRef<HTMLAudioElement | null>(null);
+  // The song whose audio the singing effect has already started; later job updates are swapped in separately
+  const startedSongRef = useRef<Song | null>(null);
+
+  // Every element of the current mix, so play/pause/rewind treat them as one track
+  const mixTracks = useCallback(
+    () =>
+      [instrumentalRef.current, vocalsRef.current, drumsRef.current, bassRef.current].filter(
+        (el): el is HTMLAudioElement => el !== null
+      ),
+    []
+  );
 
   const [phase, setPhase] = useState<Phase>("browse");
   const [songs, setSongs] = useState<Song[]>([]);
@@ -154,7 +280,16 @@ export default function Page() {
   // YouTube search state
   const [youtubeResults, setYoutubeResults] = useState<YouTubeResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  // Where the server got the results; "stale_cache"/"local" mean YouTube couldn't be asked.
+  const [searchSource, setSearchSource] = useState<{ source: SearchSource; cachedAt: string | null } | null>(null);
+  // Token for the next page of the query that's on screen (which may differ from what's typed in the box now).
+  const [nextPage, setNextPage] = useState<{ query: string; token: string } | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // The in-flight "Load more" request; a new search aborts it so the old page isn't appended.
+  const loadMoreRef = useRef<AbortController | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<YouTubeResult | null>(null);
+  // Why the server refused to prepare a search result, keyed by videoId
+  const [rejectedVideos, setRejectedVideos] = useState<Record<string, string>>({});
 
   // Current YouTube video for overlay (muted)
   const [youtubeOverlayId, setYoutubeOverlayId] = useState<string | null>(null);
@@ -162,11 +297,28 @@ export default function Page() {
   // Job processing state
   const [jobId, setJobId] = useState<string | null>(null);
   const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  // Singing started on partial stems: keep following the job until the full stems arrive
+  const [followingJob, setFollowingJob] = useState(false);
+  // Playback caught up with the separated part and waits for the next chunk
+  const [stalled, setStalled] = useState(false);
+
+  // Socket.IO connection for JOB_PROGRESS push updates (polling is the fallback)
+  const socketRef = useRef<Socket | null>(null);
+  const [socketConnected, setSocketConnected] = useState(false);
 
   // Vocal guide volume 0.0 ~ 1.0
   const [vocalGain, setVocalGain] = useState(0.0);
+  // Per-stem mixer faders 0.0 ~ 1.0 (four-stem songs only)
+  const [stemGains, setStemGains] = useState<Record<BandStem, number>>({ drums: 1, bass: 1, other: 1 });
+  // Ask for drums/bass/other too when preparing (slower; needs Demucs on the server)
+  const [fourStems, setFourStems] = useState(false);
 
   // What People Are Singing
+  // Upload a local track instead of picking a YouTube video
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadTitle, setUploadTitle] = useState("");
+  const [uploadArtist, setUploadArtist] = useState("");
+
   const [recent, setRecent] = useState<RecentItem[]>([]);
   const [recentLoading, setRecentLoading] = useState(false);
 
@@ -174,6 +326,21 @@ export default function Page() {
   const [adIndex, setAdIndex] = useState(0);
   const AD_MESSAGES = ["Ad #1 (Preparing)", "Ad #2 (Preparing)", "Ad #3 (Preparing)", "Ad #4 (Countdown)"];
 
+  // connect once; JOB_PROGRESS is only used while preparing
+  useEffect(() => {
+    const socket = API_BASE ? io(API_BASE) : io();
+    socketRef.current = socket;
+
+    socket.on("connect", () => setSocketConnected(true));
+    socket.on("disconnect", () => setSocketConnected(false));
+    socket.on("connect_error", () => setSocketConnected(false));
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, []);
+
   // fetch songs (local playlist)
   useEffect(() => {
     fetch(apiUrl("/api/songs"), { cache: "no-store" })
@@ -183,7 +350,7 @@ export default function Page() {
   }, []);
 
   // fetch recent prepared songs
-  const refreshRecent = async () => {
+  const refreshRecent = useCallback(async () => {
     setRecentLoading(true);
     try {
       const r = await fetch(apiUrl("/api/activity/recent?limit=12"), { cache: "no-store" });
@@ -194,17 +361,25 @@ export default function Page() {
     } finally {
       setRecentLoading(false);
     }
-  };
+  }, []);
 
   useEffect(() => {
     refreshRecent();
-  }, []);
+  }, [refreshRecent]);
 
   const filtered = useMemo(() => {
     const qq = q.toLowerCase();
     return songs.filter((s) => s.title.toLowerCase().includes(qq));
   }, [songs, q]);
 
+  // Quality verdicts of already-prepared songs, shown next to matching search results
+  const qualityById = useMemo(() => {
+    const map: Record<string, string[]> = {};
+    for (const s of songs) if (s.quality?.flags.length) map[s.id] = s.quality.flags;
+    for (const it of recent) if (it.quality?.flags.length) map[it.videoId] = it.quality.flags;
+    return map;
+  }, [songs, recent]);
+
   const upNext = useMemo(() => {
     const currentId = song?.id || youtubeOverlayId || "";
     return recent.filter((it) => it.videoId !== currentId).slice(0, 3);
@@ -247,24 +422,70 @@ export default function Page() {
   // Search YouTube
   const handleSearch = async () => {
     if (!q.trim()) return;
+    const query = q.trim();
 
     setIsSearching(true);
     setPhase("selecting");
+    setNextPage(null);
+    loadMoreRef.current?.abort();
 
     try {
-      const res = await fetch(apiUrl(`/api/search?q=${encodeURIComponent(q.trim())}`));
+      const res = await fetch(apiUrl(`/api/search?q=${encodeURIComponent(query)}&pageSize=${SEARCH_PAGE_SIZE}`));
       const data = await res.json();
       setYoutubeResults(data.results || []);
+      setSearchSource(data.source ? { source: data.source, cachedAt: data.cachedAt ?? null } : null);
+      setNextPage(data.nextPageToken ? { query, token: data.nextPageToken } : null);
     } catch (error) {
       console.error("Search failed:", error);
       setYoutubeResults([]);
+      setSearchSource(null);
     } finally {
       setIsSearching(false);
     }
   };
 
+  // Append the next page; each page arrives already ranked, so it goes after what's shown.
+  const loadMoreResults = async () => {
+    if (!nextPage || isLoadingMore) return;
+    const controller = new AbortController();
+    loadMoreRef.current = controller;
+    setIsLoadingMore(true);
+    try {
+      const params = new URLSearchParams({
+        q: nextPage.query,
+        pageToken: nextPage.token,
+        pageSize: String(SEARCH_PAGE_SIZE),
+      });
+      const res = await fetch(apiUrl(`/api/search?${params}`), { signal: controller.signal });
+      if (!res.ok) throw new Error(`Search failed (${res.status})`);
+      const data = await res.json();
+      if (controller.signal.aborted) return;
+      const more: YouTubeResult[] = data.results || [];
+      setYoutubeResults((prev) => {
+        const seen = new Set(prev.map((v) => v.videoId));
+        return [...prev, ...more.filter((v) => !seen.has(v.videoId))];
+      });
+      setNextPage(data.nextPageToken ? { query: nextPage.query, token: data.nextPageToken } : null);
+    } catch (error) {
+      if (!controller.signal.aborted) console.error("Load more failed:", error);
+    } finally {
+      if (loadMoreRef.current === controller) loadMoreRef.current = null;
+      setIsLoadingMore(false);
+    }
+  };
+
   // Handle video selection - start processing
   const handleSelectVideo = async (video: YouTubeResult) => {
+    if (video.prepared && video.instrumentalUrl && video.vocalsUrl) {
+      singRecent({
+        ...video,
+        instrumentalUrl: video.instrumentalUrl,
+        vocalsUrl: video.vocalsUrl,
+        preparedAt: video.preparedAt ?? video.publishedAt,
+      });
+      return;
+    }
+
     setSelectedVideo(video);
     setYoutubeOverlayId(video.videoId);
 
@@ -276,24 +497,109 @@ export default function Page() {
 
     setPhase("preparing");
     setPrep(0);
+    setJobStatus(null);
 
     try {
       const res = await fetch(apiUrl("/api/prepare"), {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          source: "youtube",
           videoId: video.videoId,
           title: video.title,
           channelTitle: video.channelTitle,
+          duration: video.duration,
+          ...(fourStems ? { stems: 4 } : {}),
         }),
       });
       const data = await res.json();
+      if (!res.ok && SOURCE_REJECTION_CODES.includes(data.code)) {
+        setRejectedVideos((prev) => ({ ...prev, [video.videoId]: data.error }));
+        setSelectedVideo(null);
+        setYoutubeOverlayId(null);
+        setPhase("selecting");
+        return;
+      }
+      if (!res.ok) {
+        // Rejected before a job existed (e.g. malformed videoId): show it on the error card.
+        setJobStatus({
+          jobId: "",
+          status: "error",
+          progress: 0,
+          stage: "Could not start",
+          error: data.error || "Could not start preparing this song.",
+          errorCode: data.code,
+        });
+        return;
+      }
       setJobId(data.jobId);
     } catch (error) {
       console.error("Failed to start processing:", error);
     }
   };
 
+  // Prepare a local audio file: same job flow as YouTube, lyrics come from the catalog/Whisper
+  const handleUpload = async () => {
+    if (!uploadFile) return;
+
+    const title = uploadTitle.trim() || uploadFile.name.replace(/\.[^.]+$/, "");
+    const artist = uploadArtist.trim();
+
+    setSelectedVideo(null);
+    setYoutubeOverlayId(null);
+    setSong({ id: "upload", title: artist ? `${title} — ${artist}` : title, videoFile: uploadFile.name });
+
+    setPhase("preparing");
+    setPrep(0);
+    setJobStatus(null);
+
+    const form = new FormData();
+    form.append("file", uploadFile);
+    form.append("title", title);
+    if (artist) form.append("artist", artist);
+    if (fourStems) form.append("stems", "4");
+
+    try {
+      const res = await fetch(apiUrl("/api/prepare/upload"), { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setJobStatus({
+          jobId: "",
+          status: "error",
+          progress: 0,
+          stage: "Could not start",
+          error: data.error || "Could not upload this file.",
+          errorCode: data.code,
+        });
+        return;
+      }
+      setSong((prev) => (prev ? { ...prev, id: data.videoId } : prev));
+      // The overlay id doubles as the lyrics lookup key; no video is embedded for uploads.
+      setYoutubeOverlayId(data.videoId);
+      setUploadFile(null);
+      setUploadTitle("");
+      setUploadArtist("");
+      setJobId(data.jobId);
+    } catch (error) {
+      console.error("Failed to upload:", error);
+      setJobStatus({
+        jobId: "",
+        status: "error",
+        progress: 0,
+        stage: "Could not start",
+        error: "Could not upload this file.",
+      });
+    }
+  };
+
+  // After a failed prepare: back to the same search results to pick another version
+  const backToResults = () => {
+    setJobId(null);
+    setJobStatus(null);
+    setPrep(0);
+    setPhase(youtubeResults.length > 0 ? "selecting" : "browse");
+  };
+
   // Start singing instantly from a recent prepared item (no prepare job)
   const singRecent = (item: RecentItem) => {
     setSelectedVideo(null);
@@ -314,43 +620,134 @@ export default function Page() {
       result: {
         instrumentalUrl: item.instrumentalUrl,
         vocalsUrl: item.vocalsUrl,
+        gainDb: item.gainDb,
+        stems: item.stems,
+        media: item.media,
       },
     });
 
     setPhase("countdown");
   };
 
-  // Poll job status
+  // Leaving the preparing phase: tell the server so it can stop yt-dlp/Demucs for this job.
+  const cancelPreparingJob = useCallback(() => {
+    if ((phase !== "preparing" && !followingJob) || !jobId || jobId === "recent" || jobId === "local") return;
+    fetch(apiUrl(`/api/prepare/${jobId}`), { method: "DELETE", keepalive: true }).catch(() => {});
+  }, [phase, followingJob, jobId]);
+
+  const resetToBrowse = useCallback(() => {
+    cancelPreparingJob();
+
+    try {
+      for (const el of mixTracks()) {
+        el.pause();
+        el.src = "";
+      }
+    } catch {}
+
+    setLyrics([]);
+    setYtLyrics([]);
+    setYtLyricsSource("idle");
+    setYtLyricsLoading(false);
+    setYtLyricsMode("timed");
+    setYtPlainLyrics("");
+    setYtLyricCandidates([]);
+    setSelectedLyricCandidateId("");
+    setActive(-1);
+    setSong(null);
+    setSelectedVideo(null);
+    setYoutubeResults([]);
+    setNextPage(null);
+    setJobId(null);
+    setJobStatus(null);
+    setFollowingJob(false);
+    setStalled(false);
+    setPrep(0);
+    setQ("");
+    setVocalGain(0.0);
+    setStemGains({ drums: 1, bass: 1, other: 1 });
+    setYoutubeOverlayId(null);
+    setLyricsEnabled(true);
+    setPhase("browse");
+  }, [cancelPreparingJob, mixTracks]);
+
+  // Track job status: JOB_PROGRESS over the socket, or 1s polling when the socket is unavailable
   useEffect(() => {
-    if (!jobId || phase !== "preparing") return;
+    if (!jobId || (phase !== "preparing" && !followingJob)) return;
+
+    let finished = false;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+
+    const applyStatus = (status: JobStatus) => {
+      if (finished) return;
+      setJobStatus(status);
+
+      // progress is already overall (download + separation), straight from the tools' output
+      if (status.status === "downloading" || status.status === "separating" || status.status === "queued") {
+        setPrep(status.progress);
+        // The first chunk is separated: start singing while the rest is stitched in
+        if (status.partial && phase === "preparing") {
+          setFollowingJob(true);
+          setPhase("countdown");
+        }
+      } else if (status.status === "complete") {
+        finished = true;
+        setPrep(100);
+        if (pollInterval) clearInterval(pollInterval);
+        refreshRecent();
+        if (followingJob) setFollowingJob(false);
+        else setTimeout(() => setPhase("countdown"), 500);
+      } else if (status.status === "error") {
+        finished = true;
+        // The job's source probe turned the video down: mark it on the search result instead
+        if (status.errorCode && SOURCE_REJECTION_CODES.includes(status.errorCode) && status.videoId) {
+          const rejectedId = status.videoId;
+          setRejectedVideos((prev) => ({ ...prev, [rejectedId]: status.error || "This video can't be prepared." }));
+          setSelectedVideo(null);
+          setYoutubeOverlayId(null);
+          setJobId(null);
+          setPhase("selecting");
+          return;
+        }
+        // stay on the preparing screen; it renders the error with retry options
+        // (when already singing on partial stems, the song just ends where the stems do)
+        if (followingJob) setFollowingJob(false);
+        if (pollInterval) clearInterval(pollInterval);
+      } else if (status.status === "cancelled") {
+        finished = true;
+        if (pollInterval) clearInterval(pollInterval);
+        resetToBrowse();
+      }
+    };
+
+    const socket = socketRef.current;
+    if (socket && socketConnected) {
+      const onProgress = (status: JobStatus) => {
+        if (status?.jobId === jobId) applyStatus(status);
+      };
+      socket.on("JOB_PROGRESS", onProgress);
+      socket.emit("JOB_SUBSCRIBE", { jobId });
+
+      return () => {
+        socket.off("JOB_PROGRESS", onProgress);
+        socket.emit("JOB_UNSUBSCRIBE", { jobId });
+      };
+    }
 
-    const pollInterval = setInterval(async () => {
+    pollInterval = setInterval(async () => {
       try {
         const res = await fetch(apiUrl(`/api/prepare/${jobId}/status`));
         const status: JobStatus = await res.json();
-        setJobStatus(status);
-
-        if (status.status === "downloading") {
-          setPrep(10 + status.progress * 0.4);
-        } else if (status.status === "separating") {
-          setPrep(50 + status.progress * 0.4);
-        } else if (status.status === "complete") {
-          setPrep(100);
-          clearInterval(pollInterval);
-          refreshRecent();
-          setTimeout(() => setPhase("countdown"), 500);
-        } else if (status.status === "error") {
-          clearInterval(pollInterval);
-          alert("Processing failed: " + status.error);
-          resetToBrowse();
-        }
+        applyStatus(status);
       } catch (error) {
         console.error("Failed to poll status:", error);
       }
     }, 1000);
 
-    return () => clearInterval(pollInterval);
-  }, [jobId, phase]);
+    return () => {
+      if (pollInterval) clearInterval(pollInterval);
+    };
+  }, [jobId, phase, socketConnected, followingJob, refreshRecent, resetToBrowse]);
 
   // countdown
   useEffect(() => {
@@ -375,11 +772,49 @@ export default function Page() {
 
   // set audio src when singing (2-track: instrumental + vocals)
   useEffect(() => {
-    if (phase !== "singing" || !song) return;
+    if (phase !== "singing" || !song) {
+      startedSongRef.current = null;
+      return;
+    }
+    // Once per song: progress updates must not restart playback
+    if (startedSongRef.current === song) return;
 
     const inst = instrumentalRef.current;
     const vox = vocalsRef.current;
     if (!inst || !vox) return;
+    startedSongRef.current = song;
+
+    // YouTube songs use /api/lyrics captions path instead of local lrc.
+    const loadLyrics = () => {
+      if (youtubeOverlayId) {
+        setLyrics([]);
+        return;
+      }
+      fetch(`/lyrics/${encodeURIComponent(song.videoFile)}.lrc`, { cache: "no-store" })
+        .then((r) => (r.ok ? r.text() : ""))
+        .then((t) => setLyrics(parseLrc(t)))
+        .catch(() => setLyrics([]));
+    };
+
+    // Started early: play the partial stems; the swap effect below stitches in longer ones
+    const partial = !jobStatus?.result ? jobStatus?.partial : null;
+    if (partial) {
+      inst.src = apiUrl(partial.instrumentalUrl);
+      vox.src = apiUrl(partial.vocalsUrl);
+      if (drumsRef.current) drumsRef.current.src = "";
+      if (bassRef.current) bassRef.current.src = "";
+      inst.currentTime = 0;
+      vox.currentTime = 0;
+      const loudnessScale = gainToVolume(partial.gainDb);
+      inst.volume = loudnessScale;
+      vox.volume = vocalGain * loudnessScale;
+      for (const el of [inst, vox]) {
+        el.load();
+        el.play().catch(() => {});
+      }
+      loadLyrics();
+      return;
+    }
 
     const instUrl = jobStatus?.result?.instrumentalUrl ? apiUrl(jobStatus.result.instrumentalUrl) : null;
 
@@ -389,43 +824,44 @@ export default function Page() {
     if (!instUrl) {
       inst.src = `/karaoke/${encodeURIComponent(song.videoFile)}`;
       vox.src = "";
+      if (drumsRef.current) drumsRef.current.src = "";
+      if (bassRef.current) bassRef.current.src = "";
       inst.currentTime = 0;
       inst.volume = 1.0;
       inst.load();
       inst.play().catch(() => {});
       setVocalGain(0.0);
-
-      fetch(`/lyrics/${encodeURIComponent(song.videoFile)}.lrc`, { cache: "no-store" })
-        .then((r) => (r.ok ? r.text() : ""))
-        .then((t) => setLyrics(parseLrc(t)))
-        .catch(() => setLyrics([]));
+      loadLyrics();
       return;
     }
 
-    inst.src = instUrl;
-    vox.src = voxUrl || "";
+    const stems = jobStatus?.result?.stems;
+    const media = jobStatus?.result?.media;
+    const drums = drumsRef.current;
+    const bass = bassRef.current;
+    const stemUrl = (stem: keyof StemMediaMap, fallback: string) => apiUrl(pickStemUrl(media, stem, fallback));
+
+    inst.src = stems ? stemUrl("other", stems.other) : stemUrl("instrumental", jobStatus?.result?.instrumentalUrl ?? "");
+    vox.src = voxUrl ? stemUrl("vocals", jobStatus?.result?.vocalsUrl ?? "") : "";
+    if (drums) drums.src = stems ? stemUrl("drums", stems.drums) : "";
+    if (bass) bass.src = stems ? stemUrl("bass", stems.bass) : "";
     inst.currentTime = 0;
     vox.currentTime = 0;
 
-    inst.volume = 1.0;
-    vox.volume = vocalGain;
-
-    inst.load();
-    vox.load();
-
-    inst.play().catch(() => {});
-    if (voxUrl) vox.play().catch(() => {});
+    // Stem fader volumes are applied by their own effect below.
+    const loudnessScale = gainToVolume(jobStatus?.result?.gainDb);
+    if (!stems) inst.volume = loudnessScale;
+    vox.volume = vocalGain * loudnessScale;
 
-    // YouTube songs use /api/lyrics captions path instead of local lrc.
-    if (youtubeOverlayId) {
-      setLyrics([]);
-    } else {
-      fetch(`/lyrics/${encodeURIComponent(song.videoFile)}.lrc`, { cache: "no-store" })
-        .then((r) => (r.ok ? r.text() : ""))
-        .then((t) => setLyrics(parseLrc(t)))
-        .catch(() => setLyrics([]));
+    for (const el of mixTracks()) {
+      if (hasTrack(el)) el.load();
+    }
+    for (const el of mixTracks()) {
+      if (hasTrack(el)) el.play().catch(() => {});
     }
-  }, [phase, song, jobStatus, youtubeOverlayId]);
+
+    loadLyrics();
+  }, [phase, song, jobStatus, youtubeOverlayId, vocalGain, mixTracks]);
 
   // Fetch YouTube captions for lyrics when singing starts.
   useEffect(() => {
@@ -529,12 +965,68 @@ export default function Page() {
     };
   }, [phase, youtubeOverlayId]);
 
+  // Progressive separation: swap longer partial stems (and finally the full ones) in under the running song
+  useEffect(() => {
+    if (phase !== "singing") return;
+    const inst = instrumentalRef.current;
+    const vox = vocalsRef.current;
+    if (!inst || !vox) return;
+
+    // Only songs that started on partial stems are swapped
+    if (!/\.partial\d+\.wav$/.test(inst.getAttribute("src") || "")) return;
+
+    const result = jobStatus?.status === "complete" ? jobStatus.result : undefined;
+    const partial = jobStatus?.partial;
+    const next = result
+      ? {
+          inst: apiUrl(pickStemUrl(result.media, "instrumental", result.instrumentalUrl)),
+          vox: apiUrl(pickStemUrl(result.media, "vocals", result.vocalsUrl)),
+          gainDb: result.gainDb,
+        }
+      : partial
+        ? { inst: apiUrl(partial.instrumentalUrl), vox: apiUrl(partial.vocalsUrl), gainDb: partial.gainDb }
+        : null;
+    if (!next || inst.getAttribute("src") === next.inst) return;
+
+    const at = inst.currentTime;
+    const resume = !inst.paused || stalled;
+    const loudnessScale = gainToVolume(next.gainDb);
+
+    for (const [el, url] of [
+      [inst, next.inst],
+      [vox, next.vox],
+    ] as const) {
+      el.src = url;
+      el.addEventListener(
+        "loadedmetadata",
+        () => {
+          el.currentTime = at;
+          if (resume) el.play().catch(() => {});
+        },
+        { once: true }
+      );
+      el.load();
+    }
+    inst.volume = loudnessScale;
+    vox.volume = vocalGain * loudnessScale;
+    setStalled(false);
+  }, [phase, jobStatus, stalled, vocalGain]);
+
   // Apply vocal volume live
   useEffect(() => {
     const vox = vocalsRef.current;
     if (!vox) return;
-    vox.volume = vocalGain;
-  }, [vocalGain]);
+    vox.volume = vocalGain * gainToVolume(jobStatus?.result?.gainDb);
+  }, [vocalGain, jobStatus?.result?.gainDb]);
+
+  // Apply stem faders live (four-stem songs only; otherwise the instrumental plays at full level)
+  useEffect(() => {
+    if (!jobStatus?.result?.stems) return;
+    const loudnessScale = gainToVolume(jobStatus.result.gainDb);
+    if (instrumentalRef.current) instrumentalRef.current.volume = stemGains.other * loudnessScale;
+    if (drumsRef.current) drumsRef.current.volume = stemGains.drums * loudnessScale;
+    if (bassRef.current) bassRef.current.volume = stemGains.bass * loudnessScale;
+  }, [stemGains, jobStatus?.result?.stems, jobStatus?.result?.gainDb]);
 
   // Highlight loop (lyrics clock source: instrumental audio currentTime)
   useEffect(() => {
@@ -563,31 +1055,36 @@ export default function Page() {
     if (!inst) return;
 
     const onEnded = () => {
-      inst.pause();
-      inst.currentTime = 0;
-      const vox = vocalsRef.current;
-      if (vox) {
-        vox.pause();
-        vox.currentTime = 0;
+      // Caught up with the separated part: hold here until the next chunk is stitched in
+      if (jobStatus?.partial && jobStatus.status !== "complete" && jobStatus.status !== "error") {
+        setStalled(true);
+        return;
+      }
+      for (const el of mixTracks()) {
+        el.pause();
+        el.currentTime = 0;
       }
       setPhase("post_song");
     };
 
     inst.addEventListener("ended", onEnded);
     return () => inst.removeEventListener("ended", onEnded);
-  }, [phase, song, jobStatus]);
+  }, [phase, song, jobStatus, mixTracks]);
 
   const toggle = () => {
     const inst = instrumentalRef.current;
     const vox = vocalsRef.current;
     if (!inst || !vox) return;
 
+    const others = [vox, drumsRef.current, bassRef.current];
     if (inst.paused) {
       inst.play().catch(() => {});
-      if (vox.src) vox.play().catch(() => {});
+      for (const el of others) {
+        if (hasTrack(el)) el.play().catch(() => {});
+      }
     } else {
       inst.pause();
-      vox.pause();
+      for (const el of others) el?.pause();
     }
   };
 
@@ -612,39 +1109,6 @@ export default function Page() {
     };
   }, [phase]);
 
-  const resetToBrowse = () => {
-    const inst = instrumentalRef.current;
-    const vox = vocalsRef.current;
-
-    try {
-      inst?.pause();
-      if (inst) inst.src = "";
-      vox?.pause();
-      if (vox) vox.src = "";
-    } catch {}
-
-    setLyrics([]);
-    setYtLyrics([]);
-    setYtLyricsSource("idle");
-    setYtLyricsLoading(false);
-    setYtLyricsMode("timed");
-    setYtPlainLyrics("");
-    setYtLyricCandidates([]);
-    setSelectedLyricCandidateId("");
-    setActive(-1);
-    setSong(null);
-    setSelectedVideo(null);
-    setYoutubeResults([]);
-    setJobId(null);
-    setJobStatus(null);
-    setPrep(0);
-    setQ("");
-    setVocalGain(0.0);
-    setYoutubeOverlayId(null);
-    setLyricsEnabled(true);
-    setPhase("browse");
-  };
-
   const AdSlot = () => (
     <div
       style={{
@@ -661,9 +1125,10 @@ export default function Page() {
     </div>
   );
 
-  const youtubeEmbedUrl = youtubeOverlayId
-    ? `https://www.youtube-nocookie.com/embed/${youtubeOverlayId}?autoplay=1&mute=1&controls=0&rel=0&playsinline=1&modestbranding=1`
-    : null;
+  const youtubeEmbedUrl =
+    youtubeOverlayId && isYouTubeId(youtubeOverlayId)
+      ? `https://www.youtube-nocookie.com/embed/${youtubeOverlayId}?autoplay=1&mute=1&controls=0&rel=0&playsinline=1&modestbranding=1`
+      : null;
 
   return (
     <main style={{ minHeight: "100vh", padding: 24, background: "#0b0b0f", color: "#f5f5f7" }}>
@@ -711,6 +1176,71 @@ export default function Page() {
               </button>
             </div>
 
+            {/* Upload your own track */}
+            <Card>
+              <div style={{ fontSize: 16, fontWeight: 900 }}>Have the track already?</div>
+              <div style={{ fontSize: 12, opacity: 0.65, marginTop: 6 }}>
+                Upload an audio file (MP3, M4A, WAV, FLAC…) and we&apos;ll remove the vocals.
+              </div>
+              <div style={{ marginTop: 12, display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                <input
+                  type="file"
+                  accept="audio/*,.mp3,.m4a,.aac,.wav,.flac,.ogg,.opus,.webm"
+                  onChange={(e) => setUploadFile(e.target.files?.[0] ?? null)}
+                  style={{ fontSize: 13, color: "#f5f5f7" }}
+                />
+                <input
+                  value={uploadTitle}
+                  onChange={(e) => setUploadTitle(e.target.value)}
+                  placeholder="Title"
+                  style={{
+                    height: 32,
+                    padding: "0 10px",
+                    borderRadius: 10,
+                    border: "1px solid #2a2a35",
+                    background: "#0f0f15",
+                    color: "#f5f5f7",
+                    outline: "none",
+                  }}
+                />
+                <input
+                  value={uploadArtist}
+                  onChange={(e) => setUploadArtist(e.target.value)}
+                  placeholder="Artist"
+                  style={{
+                    height: 32,
+                    padding: "0 10px",
+                    borderRadius: 10,
+                    border: "1px solid #2a2a35",
+                    background: "#0f0f15",
+                    color: "#f5f5f7",
+                    outline: "none",
+                  }}
+                />
+                <button
+                  onClick={handleUpload}
+                  disabled={!uploadFile}
+                  style={{
+                    height: 32,
+                    padding: "0 12px",
+                    borderRadius: 10,
+                    border: "none",
+                    background: "#2a5bd7",
+                    color: "#fff",
+                    fontWeight: 800,
+                    cursor: uploadFile ? "pointer" : "not-allowed",
+                    opacity: uploadFile ? 1 : 0.5,
+                  }}
+                >
+                  Upload &amp; prepare
+                </button>
+                <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 12, opacity: 0.8 }}>
+                  <input type="checkbox" checked={fourStems} onChange={(e) => setFourStems(e.target.checked)} />
+                  Split drums &amp; bass too (slower)
+                </label>
+              </div>
+            </Card>
+
             {/* What People Are Singing */}
             <Card>
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
@@ -762,8 +1292,8 @@ export default function Page() {
                       <div style={{ display: "grid", gap: 4 }}>
                         <div style={{ fontWeight: 900 }}>{it.title || it.videoId}</div>
                         <div style={{ fontSize: 12, opacity: 0.7 }}>
-                          {it.channelTitle && it.channelTitle !== "Unknown" ? it.channelTitle : "Unknown artist"} ·{" "}
-                          prepared {formatTimeAgo(it.preparedAt)}
+                          {it.artist || (it.channelTitle && it.channelTitle !== "Unknown" ? it.channelTitle : "Unknown artist")} ·{" "}
+                          {it.duration ? `${it.duration} · ` : ""}prepared {formatTimeAgo(it.preparedAt)}
                         </div>
                       </div>
                       <div style={{ fontWeight: 800 }}>Sing</div>
@@ -793,6 +1323,9 @@ export default function Page() {
                           result: {
                             instrumentalUrl: s.instrumentalUrl,
                             vocalsUrl: s.vocalsUrl || "",
+                            gainDb: s.gainDb,
+                            stems: s.stems,
+                            media: s.media,
                           },
                         });
                         setPhase("countdown");
@@ -847,8 +1380,25 @@ export default function Page() {
                 ← Back
               </button>
               <div style={{ fontWeight: 900 }}>Search results for "{q}"</div>
+              <label
+                style={{ marginLeft: "auto", display: "flex", alignItems: "center", gap: 6, fontSize: 12, opacity: 0.8 }}
+              >
+                <input type="checkbox" checked={fourStems} onChange={(e) => setFourStems(e.target.checked)} />
+                Split drums &amp; bass too (slower)
+              </label>
             </div>
 
+            {!isSearching && (searchSource?.source === "stale_cache" || searchSource?.source === "local") && (
+              <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 12 }}>
+                YouTube search is unavailable right now (daily limit reached or offline).{" "}
+                {searchSource.source === "stale_cache"
+                  ? `Showing saved results${
+                      searchSource.cachedAt ? ` from ${new Date(searchSource.cachedAt).toLocaleDateString()}` : ""
+                    }.`
+                  : "Showing songs already prepared here."}
+              </div>
+            )}
+
             {isSearching ? (
               <Card>
                 <div style={{ textAlign: "center", padding: 40 }}>
@@ -869,15 +1419,16 @@ export default function Page() {
                   <button
                     key={video.videoId}
                     onClick={() => handleSelectVideo(video)}
+                    disabled={Boolean(rejectedVideos[video.videoId])}
                     style={{
                       borderRadius: 14,
-                      border: "1px solid #1f1f28",
+                      border: rejectedVideos[video.videoId] ? "1px solid #5a1a2b" : "1px solid #1f1f28",
                       background: "#101018",
                       padding: 14,
                       display: "flex",
                       gap: 12,
                       alignItems: "center",
-                      cursor: "pointer",
+                      cursor: rejectedVideos[video.videoId] ? "not-allowed" : "pointer",
                       color: "#f5f5f7",
                       textAlign: "left",
                     }}
@@ -892,10 +1443,41 @@ export default function Page() {
                       <div style={{ fontSize: 12, opacity: 0.7 }}>
                         {video.channelTitle} · {video.duration}
                       </div>
+                      {video.prepared && (
+                        <div style={{ fontSize: 12, color: "#7dffb2" }}>Ready to sing · no waiting</div>
+                      )}
+                      {rejectedVideos[video.videoId] && (
+                        <div style={{ fontSize: 12, color: "#ff8fa3" }}>{rejectedVideos[video.videoId]}</div>
+                      )}
+                      {(qualityById[video.videoId] || []).map((flag) => (
+                        <div key={flag} style={{ fontSize: 12, color: "#ffcf70" }}>
+                          ⚠ {QUALITY_LABELS[flag] || flag}
+                        </div>
+                      ))}
+                    </div>
+                    <div style={{ fontWeight: 900, opacity: rejectedVideos[video.videoId] ? 0.4 : 0.9 }}>
+                      {rejectedVideos[video.videoId] ? "Unavailable" : video.prepared ? "Sing now" : "Select"}
                     </div>
-                    <div style={{ fontWeight: 900, opacity: 0.9 }}>Select</div>
                   </button>
                 ))}
+                {nextPage && (
+                  <button
+                    onClick={loadMoreResults}
+                    disabled={isLoadingMore}
+                    style={{
+                      height: 40,
+                      borderRadius: 12,
+                      border: "1px solid #2a2a35",
+                      background: "#101018",
+                      color: "#f5f5f7",
+                      fontWeight: 800,
+                      cursor: isLoadingMore ? "not-allowed" : "pointer",
+                      opacity: isLoadingMore ? 0.6 : 1,
+                    }}
+                  >
+                    {isLoadingMore ? "Loading…" : "Load more"}
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -908,7 +1490,24 @@ export default function Page() {
                 <div style={{ fontSize: 18, fontWeight: 900 }}>
                   Preparing karaoke{selectedVideo ? `: ${selectedVideo.title}` : ""}…
                 </div>
-                <div style={{ fontSize: 12, opacity: 0.7 }}>{Math.round(prep)}%</div>
+                <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+                  <div style={{ fontSize: 12, opacity: 0.7 }}>{Math.round(prep)}%</div>
+                  <button
+                    onClick={resetToBrowse}
+                    style={{
+                      height: 32,
+                      padding: "0 12px",
+                      borderRadius: 10,
+                      border: "1px solid #2a2a35",
+                      background: "#101018",
+                      color: "#f5f5f7",
+                      fontWeight: 800,
+                      cursor: "pointer",
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </div>
               </div>
 
               <div
@@ -922,7 +1521,73 @@ export default function Page() {
                 <div style={{ height: "100%", width: `${prep}%`, background: "#2a5bd7" }} />
               </div>
 
-              <div style={{ fontSize: 13, opacity: 0.75 }}>{jobStatus?.stage ?? "Preparing…"}</div>
+              <div style={{ fontSize: 13, opacity: 0.75 }}>
+                {jobStatus?.stage ?? "Preparing…"}
+                {jobStatus?.etaSeconds != null && !jobStatus.queuePosition
+                  ? ` · ${formatWait(jobStatus.etaSeconds)} left`
+                  : ""}
+              </div>
+
+              {jobStatus?.status === "error" && (
+                <div
+                  style={{
+                    borderRadius: 10,
+                    border: "1px solid #5a1a2b",
+                    background: "#1a0f14",
+                    padding: 12,
+                    display: "grid",
+                    gap: 10,
+                  }}
+                >
+                  <div style={{ fontWeight: 800 }}>{jobStatus.error || "Something went wrong while preparing this song."}</div>
+                  {jobStatus.errorCode && (
+                    <div style={{ fontSize: 11, opacity: 0.55 }}>Error code: {jobStatus.errorCode}</div>
+                  )}
+                  <div style={{ display: "flex", gap: 8 }}>
+                    {selectedVideo && (
+                      <button
+                        onClick={() => handleSelectVideo(selectedVideo)}
+                        style={{
+                          height: 32,
+                          padding: "0 12px",
+                          borderRadius: 10,
+                          border: "none",
+                          background: "#2a5bd7",
+                          color: "#fff",
+                          fontWeight: 800,
+                          cursor: "pointer",
+                        }}
+                      >
+                        Try again
+                      </button>
+                    )}
+                    <button
+                      onClick={backToResults}
+                      style={{
+                        height: 32,
+                        padding: "0 12px",
+                        borderRadius: 10,
+                        border: "1px solid #2a2a35",
+                        background: "#101018",
+                        color: "#f5f5f7",
+                        fontWeight: 800,
+                        cursor: "pointer",
+                      }}
+                    >
+                      Pick another version
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {jobStatus?.queuePosition ? (
+                <div style={{ fontSize: 13, fontWeight: 800 }}>
+                  {ordinal(jobStatus.queuePosition)} in line
+                  {jobStatus.estimatedWaitSeconds != null
+                    ? ` · ${formatWait(jobStatus.estimatedWaitSeconds)} wait`
+                    : ""}
+                </div>
+              ) : null}
 
               <AdSlot />
             </div>
@@ -1037,6 +1702,8 @@ export default function Page() {
               <div style={{ marginTop: 12, borderRadius: 12, background: "#000", padding: 12 }}>
                 <audio ref={instrumentalRef} />
                 <audio ref={vocalsRef} />
+                <audio ref={drumsRef} />
+                <audio ref={bassRef} />
 
                 <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 8 }}>
                   <div style={{ fontSize: 12, opacity: 0.7, width: 120 }}>Vocal guide</div>
@@ -1055,6 +1722,38 @@ export default function Page() {
                   </div>
                 </div>
 
+                {/* Per-stem mixer for four-stem songs */}
+                {jobStatus?.result?.stems &&
+                  BAND_STEMS.map(({ stem, label }) => (
+                    <div key={stem} style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 8 }}>
+                      <div style={{ fontSize: 12, opacity: 0.7, width: 120 }}>{label}</div>
+
+                      <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(stemGains[stem] * 100)}
+                        onChange={(e) => {
+                          const value = Number(e.target.value) / 100;
+                          setStemGains((prev) => ({ ...prev, [stem]: value }));
+                        }}
+                        style={{ flex: 1 }}
+                      />
+
+                      <div style={{ fontSize: 12, opacity: 0.7, width: 50, textAlign: "right" }}>
+                        {Math.round(stemGains[stem] * 100)}%
+                      </div>
+                    </div>
+                  ))}
+
+                {followingJob && jobStatus?.partial && (
+                  <div style={{ fontSize: 12, color: "#9ab4ff", marginTop: 8 }}>
+                    {stalled
+                      ? "Catching up… the next part of the song is almost ready."
+                      : `Still separating: ${formatClock(jobStatus.partial.readySeconds)} of ${formatClock(jobStatus.partial.totalSeconds)} ready.`}
+                  </div>
+                )}
+
                 <div style={{ fontSize: 12, opacity: 0.55, marginTop: 8 }}>
                   Tip: video is muted; audio comes from the karaoke mix.
                 </div>
@@ -1185,15 +1884,9 @@ export default function Page() {
 
                 <button
                   onClick={() => {
-                    const inst = instrumentalRef.current;
-                    const vox = vocalsRef.current;
-                    if (inst) {
-                      inst.pause();
-                      inst.currentTime = 0;
-                    }
-                    if (vox) {
-                      vox.pause();
-                      vox.currentTime = 0;
+                    for (const el of mixTracks()) {
+                      el.pause();
+                      el.currentTime = 0;
                     }
                     setPhase("countdown");
                   }}
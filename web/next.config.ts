@@ -13,6 +13,10 @@ const nextConfig: NextConfig = {
         source: "/cache/:path*",
         destination: `${internalApiTarget}/cache/:path*`,
       },
+      {
+        source: "/socket.io/:path*",
+        destination: `${internalApiTarget}/socket.io/:path*`,
+      },
     ];
   },
 };